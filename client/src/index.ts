@@ -0,0 +1,310 @@
+// Client for the search agent's WebSocket protocol: connects to a room, reconnects after disconnects
+// (resuming the history after the last message it saw) and calls typed callbacks for server messages.
+import {
+    clientMessageSchema,
+    PROTOCOL_VERSION,
+    serverMessageSchema,
+    UNSUPPORTED_PROTOCOL_CLOSE_CODE,
+    type ClientMessage,
+    type HistoryMessage,
+    type ServerMessage,
+    type ServerMessageType,
+} from '../../src/protocol';
+
+export { PROTOCOL_VERSION } from '../../src/protocol';
+export type { ClientMessage, HistoryMessage, ProtocolCitation, ProtocolFile, ServerMessage, ServerMessageType } from '../../src/protocol';
+
+// The parts of a WebSocket the client uses, so that implementations like the ws package can be passed in
+export interface WebSocketLike {
+    readyState: number;
+    onopen: ((event: any) => void) | null;
+    onmessage: ((event: { data: any }) => void) | null;
+    onclose: ((event: { code: number; reason: string }) => void) | null;
+    onerror: ((event: any) => void) | null;
+    send(data: string): void;
+    close(code?: number, reason?: string): void;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+export interface SearchClientOptions {
+    // Base URL of the Worker, e.g. https://search.example.com (ws:// and wss:// work too)
+    url: string;
+    // Conversation room; rooms are created on first use
+    room: string;
+    // Bearer token when auth is enabled. A function is called before every (re)connect, so it can refresh it.
+    token?: string | (() => string | Promise<string>);
+    // Only receive the history after this message on the first connect
+    lastMessageId?: string;
+    // Reconnect after the connection drops (default true), waiting minReconnectDelayMs (500) doubling up to
+    // maxReconnectDelayMs (30000) between attempts
+    reconnect?: boolean;
+    minReconnectDelayMs?: number;
+    maxReconnectDelayMs?: number;
+    // WebSocket implementation, for runtimes without a global one (e.g. Node.js before 22)
+    WebSocket?: WebSocketConstructor;
+}
+
+type MessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+
+// Callbacks by event: one per server message type, plus the connection's own events
+export type SearchClientEvents = { [T in ServerMessageType]: (message: MessageOf<T>) => void } & {
+    // The connection dropped; reconnecting tells whether another attempt follows
+    disconnected: (info: { code: number; reason: string; reconnecting: boolean }) => void;
+    // A message from the server did not follow the protocol
+    'protocol-error': (error: string, data: unknown) => void;
+};
+
+export type SearchClientEvent = keyof SearchClientEvents;
+
+export type ChatOptions = Omit<Extract<ClientMessage, { type: 'chat' }>, 'type' | 'content'>;
+export type SettingsUpdate = Omit<Extract<ClientMessage, { type: 'settings' }>, 'type'>;
+export type FeedbackUpdate = Omit<Extract<ClientMessage, { type: 'feedback' }>, 'type' | 'messageId'>;
+
+const SERVER_MESSAGE_TYPES = new Set<string>(serverMessageSchema.options.map((option) => option.shape.type.value));
+const OPEN = 1;
+
+export class SearchClient {
+    // Protocol version negotiated with the server, null while not connected
+    version: number | null = null;
+    // Last message of the conversation this client received or sent; reconnects resume after it
+    lastMessageId: string | null;
+
+    private options: SearchClientOptions;
+    private socket: WebSocketLike | null = null;
+    private listeners = new Map<SearchClientEvent, Set<(...args: any[]) => void>>();
+    // Messages sent while disconnected, delivered once the handshake completes
+    private queue: ClientMessage[] = [];
+    private reconnectAttempts = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private closed = false;
+    private connecting: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+    constructor(options: SearchClientOptions) {
+        this.options = options;
+        this.lastMessageId = options.lastMessageId || null;
+    }
+
+    // Open the connection; resolves once the server accepted the protocol version
+    connect(): Promise<void> {
+        this.closed = false;
+        if (this.version !== null) {
+            return Promise.resolve();
+        }
+        const connected = new Promise<void>((resolve, reject) => {
+            this.connecting = { resolve, reject };
+        });
+        if (!this.socket && !this.reconnectTimer) {
+            void this.open();
+        }
+        return connected;
+    }
+
+    // Close the connection for good; queued messages are dropped
+    close() {
+        this.closed = true;
+        this.queue = [];
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.socket?.close(1000, 'Client closed');
+        this.socket = null;
+        this.version = null;
+        this.connecting?.reject(new Error('Client closed'));
+        this.connecting = null;
+    }
+
+    // Register a callback; returns a function that removes it
+    on<E extends SearchClientEvent>(event: E, callback: SearchClientEvents[E]): () => void {
+        const callbacks = this.listeners.get(event) || new Set();
+        callbacks.add(callback as (...args: any[]) => void);
+        this.listeners.set(event, callbacks);
+        return () => {
+            callbacks.delete(callback as (...args: any[]) => void);
+        };
+    }
+
+    // Ask a question; returns the ID of the user message. The answer streams back as text-delta
+    // (or object-delta) messages, followed by citations, files and finish.
+    ask(content: string, options: ChatOptions = {}): string {
+        const id = options.id || crypto.randomUUID();
+        this.send({ type: 'chat', ...options, id, content });
+        return id;
+    }
+
+    updateSettings(settings: SettingsUpdate) {
+        this.send({ type: 'settings', ...settings });
+    }
+
+    // Stop the run in progress; the partial answer is kept
+    cancel() {
+        this.send({ type: 'cancel' });
+    }
+
+    // Hint for the next iteration of the run in progress
+    steer(hint: string) {
+        this.send({ type: 'steer', hint });
+    }
+
+    sendFeedback(messageId: string, feedback: FeedbackUpdate) {
+        this.send({ type: 'feedback', messageId, ...feedback });
+    }
+
+    // Send a protocol message, or queue it until the connection is back. Invalid messages throw.
+    send(message: ClientMessage) {
+        const parsed = clientMessageSchema.safeParse(message);
+        if (!parsed.success) {
+            throw new Error(`Invalid message: ${parsed.error.issues.map((issue) => `${issue.path.join('.') || 'message'}: ${issue.message}`).join(', ')}`);
+        }
+        if (this.closed) {
+            throw new Error('Client closed');
+        }
+        if (this.version === null || !this.socket || this.socket.readyState !== OPEN) {
+            this.queue.push(message);
+            return;
+        }
+        this.deliver(this.socket, message);
+    }
+
+    private deliver(socket: WebSocketLike, message: ClientMessage) {
+        socket.send(JSON.stringify(message));
+        if (message.type === 'chat' && message.id) {
+            this.lastMessageId = message.id;
+        }
+    }
+
+    private async open() {
+        let token: string | undefined;
+        try {
+            token = typeof this.options.token === 'function' ? await this.options.token() : this.options.token;
+        } catch (error: any) {
+            this.handleClose(null, 4001, `Could not get a token: ${error?.message || error}`);
+            return;
+        }
+        if (this.closed) {
+            return;
+        }
+
+        const url = new URL(`/agents/search-agent/${encodeURIComponent(this.options.room)}`, this.options.url);
+        url.protocol = url.protocol.replace(/^http/, 'ws');
+        url.searchParams.set('protocol', String(PROTOCOL_VERSION));
+        if (this.lastMessageId) {
+            url.searchParams.set('lastMessageId', this.lastMessageId);
+        }
+        if (token) {
+            url.searchParams.set('token', token);
+        }
+
+        const WebSocketImpl = this.options.WebSocket || (globalThis as any).WebSocket as WebSocketConstructor | undefined;
+        if (!WebSocketImpl) {
+            this.closed = true;
+            this.connecting?.reject(new Error('No WebSocket implementation available, pass one in the WebSocket option'));
+            this.connecting = null;
+            return;
+        }
+
+        const socket = new WebSocketImpl(url.toString());
+        this.socket = socket;
+        socket.onmessage = (event) => this.receive(event.data);
+        socket.onclose = (event) => this.handleClose(socket, event.code, event.reason);
+        // Errors are followed by a close event, which handles them
+        socket.onerror = () => {};
+    }
+
+    private receive(raw: unknown) {
+        if (typeof raw !== 'string') {
+            return;
+        }
+        let data: any;
+        try {
+            data = JSON.parse(raw);
+        } catch {
+            this.emit('protocol-error', 'Message is not valid JSON', raw);
+            return;
+        }
+        // State sync of the agents SDK, and message types added after this client
+        if (!data || typeof data.type !== 'string' || !SERVER_MESSAGE_TYPES.has(data.type)) {
+            return;
+        }
+        const parsed = serverMessageSchema.safeParse(data);
+        if (!parsed.success) {
+            this.emit('protocol-error', `Invalid ${data.type} message: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ')}`, data);
+            return;
+        }
+        // Callbacks get the message as sent, with any fields newer servers add
+        const message = data as ServerMessage;
+
+        switch (message.type) {
+            case 'welcome':
+                this.version = message.version;
+                this.reconnectAttempts = 0;
+                for (const queued of this.queue.splice(0)) {
+                    this.deliver(this.socket!, queued);
+                }
+                break;
+            case 'message-history': {
+                const last = message.messages[message.messages.length - 1];
+                if (last) {
+                    this.lastMessageId = last.id;
+                }
+                break;
+            }
+            case 'finish':
+                if (message.messageId) {
+                    this.lastMessageId = message.messageId;
+                }
+                break;
+        }
+
+        this.emit(message.type, message as any);
+
+        if (message.type === 'welcome') {
+            this.connecting?.resolve();
+            this.connecting = null;
+        }
+    }
+
+    private handleClose(socket: WebSocketLike | null, code: number, reason: string) {
+        if (socket && socket !== this.socket) {
+            return;
+        }
+        this.socket = null;
+        this.version = null;
+
+        // No retry once closed on purpose, when the room was deleted (1000) or without a common protocol version
+        const reconnecting = !this.closed && this.options.reconnect !== false
+            && code !== 1000 && code !== UNSUPPORTED_PROTOCOL_CLOSE_CODE;
+        this.emit('disconnected', { code, reason, reconnecting });
+        if (this.closed) {
+            return;
+        }
+        if (!reconnecting) {
+            this.closed = true;
+            this.queue = [];
+            this.connecting?.reject(new Error(reason || `Connection closed (${code})`));
+            this.connecting = null;
+            return;
+        }
+
+        // Exponential backoff with jitter
+        const minDelay = this.options.minReconnectDelayMs ?? 500;
+        const maxDelay = this.options.maxReconnectDelayMs ?? 30000;
+        const delay = Math.min(maxDelay, minDelay * 2 ** this.reconnectAttempts) * (0.5 + Math.random() / 2);
+        this.reconnectAttempts++;
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            void this.open();
+        }, delay);
+    }
+
+    private emit<E extends SearchClientEvent>(event: E, ...args: Parameters<SearchClientEvents[E]>) {
+        for (const callback of this.listeners.get(event) || []) {
+            try {
+                callback(...args);
+            } catch (error) {
+                console.error(`[SearchClient] Error in ${event} callback:`, error);
+            }
+        }
+    }
+}
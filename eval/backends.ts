@@ -0,0 +1,133 @@
+import type { Env } from '../src/types';
+
+// AutoRAG search response, as returned by env.AI.autorag(name).search()
+export interface SearchResponse {
+    search_query: string;
+    data: Array<{
+        file_id: string;
+        filename: string;
+        score: number;
+        attributes?: Record<string, any>;
+        content: Array<{ type: 'text'; text: string }>;
+    }>;
+}
+
+// Where the loop's AutoRAG searches go during an evaluation. The request is the one built by
+// toAutoRagSearchRequest (query, max_num_results, ranking_options.score_threshold, filters).
+export interface SearchBackend {
+    search(rag: string, request: any): Promise<SearchResponse>;
+}
+
+export interface FixtureDocument {
+    file_id: string;
+    filename: string;
+    text: string;
+    // Metadata for AutoRAG-style filters, e.g. { folder: 'reports/', timestamp: 1704067200 }
+    attributes?: Record<string, any>;
+}
+
+// Documents per RAG instance
+export type FixtureCorpus = Record<string, FixtureDocument[]>;
+
+const STOPWORDS = new Set([
+    'the', 'and', 'for', 'are', 'was', 'were', 'what', 'which', 'who', 'how', 'why', 'when', 'where',
+    'does', 'did', 'with', 'from', 'that', 'this', 'these', 'those', 'has', 'have', 'had', 'its', 'into',
+    'about', 'been', 'than', 'then', 'there', 'their', 'they', 'can', 'all', 'any', 'our', 'you', 'your',
+]);
+
+function terms(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter((term) => term.length > 2 && !STOPWORDS.has(term));
+}
+
+function matchesFilter(attributes: Record<string, any>, filter: any): boolean {
+    if (filter.filters) {
+        const results = filter.filters.map((child: any) => matchesFilter(attributes, child));
+        return filter.type === 'or' ? results.some(Boolean) : results.every(Boolean);
+    }
+    const value = attributes[filter.key];
+    switch (filter.type) {
+        case 'eq': return value === filter.value;
+        case 'ne': return value !== filter.value;
+        case 'gt': return value > filter.value;
+        case 'gte': return value >= filter.value;
+        case 'lt': return value < filter.value;
+        case 'lte': return value <= filter.value;
+        default: return true;
+    }
+}
+
+// Deterministic keyword search over a fixture corpus: a document scores the share of query terms it contains.
+// Honours max_num_results, score_threshold and metadata filters like AutoRAG does.
+export function fixtureBackend(corpus: FixtureCorpus): SearchBackend {
+    const indexed = Object.fromEntries(Object.entries(corpus).map(([rag, documents]) => [
+        rag,
+        documents.map((document) => ({ document, terms: new Set(terms(`${document.filename} ${document.text}`)) })),
+    ]));
+
+    return {
+        async search(rag, request) {
+            const documents = indexed[rag];
+            if (!documents) {
+                throw new Error(`No fixtures for RAG instance "${rag}"`);
+            }
+
+            const queryTerms = Array.from(new Set(terms(request.query)));
+            const threshold = request.ranking_options?.score_threshold ?? 0;
+            const results = documents
+                .filter(({ document }) => !request.filters || matchesFilter(document.attributes || {}, request.filters))
+                .map(({ document, terms: documentTerms }) => ({
+                    document,
+                    score: queryTerms.length > 0 ? queryTerms.filter((term) => documentTerms.has(term)).length / queryTerms.length : 0,
+                }))
+                .filter((result) => result.score > 0 && result.score >= threshold)
+                .sort((a, b) => b.score - a.score)
+                .slice(0, request.max_num_results || 10);
+
+            return {
+                search_query: request.query,
+                data: results.map(({ document, score }) => ({
+                    file_id: document.file_id,
+                    filename: document.filename,
+                    score: score,
+                    attributes: document.attributes,
+                    content: [{ type: 'text', text: document.text }],
+                })),
+            };
+        },
+    };
+}
+
+// Live AutoRAG instances through the Cloudflare REST API, to evaluate real indexes from a laptop
+export function autoRagRestBackend(accountId: string, apiToken: string): SearchBackend {
+    return {
+        async search(rag, request) {
+            const response = await fetch(`https://api.cloudflare.com/client/v4/accounts/${accountId}/autorag/rags/${encodeURIComponent(rag)}/search`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${apiToken}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(request),
+            });
+            const body: any = await response.json();
+            if (!response.ok || !body.success) {
+                throw new Error(`AutoRAG search on ${rag} failed: ${JSON.stringify(body.errors || response.status)}`);
+            }
+            return body.result;
+        },
+    };
+}
+
+// Worker env for running the agentic loop outside the Workers runtime: searches go to the backend,
+// the answer cache is off, and model settings come from the given variables
+export function evaluationEnv(backend: SearchBackend, vars: Partial<Env>): Env {
+    return {
+        ...vars,
+        ANSWER_CACHE_ENABLED: 'false',
+        AI: {
+            autorag: (rag: string) => ({
+                search: (request: any) => backend.search(rag, request),
+            }),
+        },
+    } as Env;
+}
@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { createModel, resolveModelSpecs, type ModelConfig, type ModelRole } from '../src/models';
+import { mergeRetrievalSettings, retrievalSettingsUpdateSchema, type RetrievalSettings } from '../src/retrieval';
+import { runAgenticSearch } from '../src/search-loop';
+import type { Env } from '../src/types';
+import { evaluationEnv, type SearchBackend } from './backends';
+import { judgeAnswer, recallAtK, reciprocalRank, retrievedFileIds } from './metrics';
+
+export const goldenDatasetSchema = z.object({
+    name: z.string().min(1),
+    // RAG instances searched by every case unless it sets its own
+    rags: z.array(z.string().min(1)).min(1),
+    retrieval: retrievalSettingsUpdateSchema.optional(),
+    // Fixture corpus for the local backend, relative to the dataset file
+    fixtures: z.string().optional(),
+    cases: z.array(z.object({
+        id: z.string().min(1),
+        question: z.string().min(1),
+        // Earlier turns, to exercise query rewriting
+        history: z.array(z.object({
+            role: z.enum(['user', 'assistant']),
+            content: z.string(),
+        })).optional(),
+        rags: z.array(z.string().min(1)).min(1).optional(),
+        // file_ids that a good search should retrieve
+        expectedFiles: z.array(z.string()),
+        referenceAnswer: z.string(),
+    })).min(1),
+});
+
+export type GoldenDataset = z.infer<typeof goldenDatasetSchema>;
+
+export interface CaseResult {
+    id: string;
+    question: string;
+    answer: string;
+    iterations: number;
+    searches: number;
+    retrieved: string[];
+    expected: string[];
+    recall: number | null;
+    reciprocalRank: number | null;
+    faithfulness: number | null;
+    relevance: number | null;
+    judgeReasoning?: string;
+    durationMs: number;
+    // Tokens used by the loop and the judge
+    totalTokens: number;
+    error?: string;
+}
+
+export interface EvaluationSummary {
+    cases: number;
+    failed: number;
+    // Means over the cases where the metric applies
+    recall: number | null;
+    mrr: number | null;
+    iterations: number | null;
+    searches: number | null;
+    faithfulness: number | null;
+    relevance: number | null;
+    totalTokens: number;
+}
+
+export interface EvaluationReport {
+    dataset: string;
+    startedAt: string;
+    durationMs: number;
+    k: number;
+    models: Record<ModelRole, string>;
+    judgeModel: string;
+    retrieval: RetrievalSettings;
+    summary: EvaluationSummary;
+    cases: CaseResult[];
+}
+
+export interface EvaluationOptions {
+    dataset: GoldenDataset;
+    backend: SearchBackend;
+    // Model settings (MODEL_*, API keys) as they would be in the Worker env
+    vars: Partial<Env>;
+    models?: ModelConfig;
+    // "<provider>:<model id>" grading faithfulness and relevance
+    judgeModel: string;
+    // Cutoff for recall@k
+    k?: number;
+    onCase?: (result: CaseResult) => void;
+}
+
+function mean(values: Array<number | null>): number | null {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+}
+
+// Run every case of a golden dataset through the agentic loop, one at a time, and score it
+export async function runEvaluation(options: EvaluationOptions): Promise<EvaluationReport> {
+    const { dataset, backend } = options;
+    const k = options.k ?? 5;
+    const env = evaluationEnv(backend, options.vars);
+    const retrieval = mergeRetrievalSettings(undefined, dataset.retrieval);
+    const judge = createModel(options.judgeModel, 'judge', env);
+    const startedAt = Date.now();
+    const cases: CaseResult[] = [];
+
+    for (const goldenCase of dataset.cases) {
+        const caseStart = Date.now();
+        let caseResult: CaseResult;
+
+        try {
+            const result = await runAgenticSearch({
+                env,
+                ragNames: goldenCase.rags || dataset.rags,
+                messages: [...(goldenCase.history || []), { role: 'user', content: goldenCase.question }],
+                models: options.models,
+                retrieval,
+                cache: false,
+                // The fixtures have no Workers AI reranker: rank on the vector scores
+                scorer: null,
+                emit: () => {},
+            });
+
+            const retrieved = retrievedFileIds(result);
+            const judgment = await judgeAnswer(judge, {
+                question: goldenCase.question,
+                answer: result.answer,
+                referenceAnswer: goldenCase.referenceAnswer,
+                citations: result.citations,
+            });
+
+            caseResult = {
+                id: goldenCase.id,
+                question: goldenCase.question,
+                answer: result.answer,
+                iterations: result.iterations,
+                searches: result.searches.length,
+                retrieved,
+                expected: goldenCase.expectedFiles,
+                recall: recallAtK(retrieved, goldenCase.expectedFiles, k),
+                reciprocalRank: reciprocalRank(retrieved, goldenCase.expectedFiles),
+                faithfulness: judgment.faithfulness,
+                relevance: judgment.relevance,
+                judgeReasoning: judgment.reasoning,
+                durationMs: Date.now() - caseStart,
+                totalTokens: result.trace.usage.totalTokens + judgment.usage.totalTokens,
+            };
+        } catch (error: any) {
+            console.error(`[Eval] Case ${goldenCase.id} failed:`, error);
+            caseResult = {
+                id: goldenCase.id,
+                question: goldenCase.question,
+                answer: '',
+                iterations: 0,
+                searches: 0,
+                retrieved: [],
+                expected: goldenCase.expectedFiles,
+                recall: null,
+                reciprocalRank: null,
+                faithfulness: null,
+                relevance: null,
+                durationMs: Date.now() - caseStart,
+                totalTokens: 0,
+                error: error.message,
+            };
+        }
+
+        cases.push(caseResult);
+        options.onCase?.(caseResult);
+    }
+
+    const succeeded = cases.filter((result) => !result.error);
+    return {
+        dataset: dataset.name,
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        k,
+        models: resolveModelSpecs(env, options.models),
+        judgeModel: options.judgeModel,
+        retrieval,
+        summary: {
+            cases: cases.length,
+            failed: cases.length - succeeded.length,
+            recall: mean(succeeded.map((result) => result.recall)),
+            mrr: mean(succeeded.map((result) => result.reciprocalRank)),
+            iterations: mean(succeeded.map((result) => result.iterations)),
+            searches: mean(succeeded.map((result) => result.searches)),
+            faithfulness: mean(succeeded.map((result) => result.faithfulness)),
+            relevance: mean(succeeded.map((result) => result.relevance)),
+            totalTokens: cases.reduce((sum, result) => sum + result.totalTokens, 0),
+        },
+        cases,
+    };
+}
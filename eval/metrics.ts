@@ -0,0 +1,78 @@
+import { generateObject, type LanguageModel } from 'ai';
+import { z } from 'zod';
+import type { Citation } from '../src/evidence';
+import type { SearchRunResult } from '../src/search-loop';
+import { toTokenUsage, type TokenUsage } from '../src/trace';
+
+// file_ids in the order the run first retrieved them: search after search, by rank within each search
+export function retrievedFileIds(result: SearchRunResult): string[] {
+    const seen = new Set<string>();
+    for (const step of result.trace.steps) {
+        if (step.kind !== 'search') {
+            continue;
+        }
+        for (const searchResult of step.results) {
+            seen.add(searchResult.file_id);
+        }
+    }
+    return Array.from(seen);
+}
+
+// Share of the expected files found in the first k retrieved ones (null when nothing is expected)
+export function recallAtK(retrieved: string[], expected: string[], k: number): number | null {
+    if (expected.length === 0) {
+        return null;
+    }
+    const topK = new Set(retrieved.slice(0, k));
+    return expected.filter((fileId) => topK.has(fileId)).length / expected.length;
+}
+
+// 1 / rank of the first expected file retrieved, 0 if none was (null when nothing is expected)
+export function reciprocalRank(retrieved: string[], expected: string[]): number | null {
+    if (expected.length === 0) {
+        return null;
+    }
+    const rank = retrieved.findIndex((fileId) => expected.includes(fileId));
+    return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+const judgmentSchema = z.object({
+    faithfulness: z.number().min(0).max(1).describe('Share of the claims in the answer that are supported by the cited evidence, from 0 to 1'),
+    relevance: z.number().min(0).max(1).describe('How completely and directly the answer addresses the question, compared with the reference answer, from 0 to 1'),
+    reasoning: z.string().describe('One or two sentences explaining both scores'),
+});
+
+export type AnswerJudgment = z.infer<typeof judgmentSchema> & { usage: TokenUsage };
+
+// LLM-as-judge scoring of an answer against its cited evidence and the reference answer
+export async function judgeAnswer(model: LanguageModel, input: {
+    question: string;
+    answer: string;
+    referenceAnswer: string;
+    citations: Citation[];
+}): Promise<AnswerJudgment> {
+    const result = await generateObject({
+        model: model,
+        schema: judgmentSchema,
+        prompt: `You are grading an answer produced by a document search assistant.
+
+Question: ${input.question}
+
+Reference Answer:
+${input.referenceAnswer}
+
+Evidence cited by the answer:
+${input.citations.length > 0 ? input.citations.map((citation) => `[${citation.marker}] (${citation.filename}) ${citation.text}`).join('\n\n') : '(none)'}
+
+Answer to grade:
+${input.answer}
+
+Task:
+1. Faithfulness: judge only against the cited evidence. Claims that the evidence does not support lower the score, even if they are true.
+2. Relevance: judge against the question and the reference answer. Missing key points or answering a different question lowers the score.
+
+Provide your grades.`,
+    });
+
+    return { ...result.object, usage: toTokenUsage(result.usage) };
+}
@@ -0,0 +1,75 @@
+import type { EvaluationReport, EvaluationSummary } from './harness';
+
+export interface Thresholds {
+    recall?: number;
+    mrr?: number;
+    faithfulness?: number;
+    relevance?: number;
+}
+
+function formatScore(value: number | null, digits: number = 2): string {
+    return value === null ? 'n/a' : value.toFixed(digits);
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+}
+
+// Metrics that fell below their threshold, as readable messages (empty when the run passes)
+export function checkThresholds(summary: EvaluationSummary, thresholds: Thresholds): string[] {
+    const failures: string[] = [];
+    if (summary.failed > 0) {
+        failures.push(`${summary.failed} case(s) failed to run`);
+    }
+    for (const metric of ['recall', 'mrr', 'faithfulness', 'relevance'] as const) {
+        const minimum = thresholds[metric];
+        const value = summary[metric];
+        if (minimum !== undefined && (value === null || value < minimum)) {
+            failures.push(`${metric} ${formatScore(value)} is below ${minimum}`);
+        }
+    }
+    return failures;
+}
+
+export function reportToMarkdown(report: EvaluationReport, failures: string[] = []): string {
+    const { summary } = report;
+    const lines: string[] = [];
+
+    lines.push(`# Evaluation: ${report.dataset}`, '');
+    lines.push(`- Started: ${report.startedAt} (${(report.durationMs / 1000).toFixed(1)}s)`);
+    lines.push(`- Models: ${Object.entries(report.models).map(([role, spec]) => `${role} \`${spec}\``).join(', ')}`);
+    lines.push(`- Judge: \`${report.judgeModel}\``);
+    lines.push(`- Retrieval: maxResults ${report.retrieval.maxResults}, scoreThreshold ${report.retrieval.scoreThreshold}, fusion ${report.retrieval.fusion}`);
+    lines.push('');
+
+    lines.push('## Summary', '');
+    lines.push('| Metric | Value |', '|--------|-------|');
+    lines.push(`| Cases | ${summary.cases}${summary.failed > 0 ? ` (${summary.failed} failed)` : ''} |`);
+    lines.push(`| Recall@${report.k} | ${formatScore(summary.recall)} |`);
+    lines.push(`| MRR | ${formatScore(summary.mrr)} |`);
+    lines.push(`| Iterations | ${formatScore(summary.iterations, 1)} |`);
+    lines.push(`| Searches | ${formatScore(summary.searches, 1)} |`);
+    lines.push(`| Faithfulness | ${formatScore(summary.faithfulness)} |`);
+    lines.push(`| Relevance | ${formatScore(summary.relevance)} |`);
+    lines.push(`| Tokens | ${summary.totalTokens} |`);
+    lines.push('');
+
+    if (failures.length > 0) {
+        lines.push('**Thresholds not met:**', '');
+        lines.push(...failures.map((failure) => `- ${failure}`), '');
+    }
+
+    lines.push('## Cases', '');
+    lines.push(`| Case | Recall@${report.k} | RR | Iterations | Faithfulness | Relevance | Notes |`);
+    lines.push('|------|--------|----|------------|--------------|-----------|-------|');
+    for (const result of report.cases) {
+        const missing = result.expected.filter((fileId) => !result.retrieved.slice(0, report.k).includes(fileId));
+        const notes = result.error
+            ? `Error: ${result.error}`
+            : [missing.length > 0 ? `missing ${missing.join(', ')}` : '', result.judgeReasoning || ''].filter(Boolean).join('; ');
+        lines.push(`| ${escapeCell(result.id)} | ${formatScore(result.recall)} | ${formatScore(result.reciprocalRank)} | ${result.iterations} | ${formatScore(result.faithfulness)} | ${formatScore(result.relevance)} | ${escapeCell(notes)} |`);
+    }
+    lines.push('');
+
+    return lines.join('\n');
+}
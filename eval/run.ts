@@ -0,0 +1,94 @@
+// Evaluate the agentic loop on a golden dataset and write JSON and Markdown reports.
+//   npm run eval -- [--dataset eval/datasets/sample.json] [--model mock:default] [--judge-model mock:judge]
+//                   [--autorag] [--k 5] [--out eval/results] [--min-recall 0.8] [--min-mrr 0.5]
+//                   [--min-faithfulness 0.7] [--min-relevance 0.7]
+// Exits with status 1 when a case fails or a metric is below its --min-* threshold.
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { autoRagRestBackend, fixtureBackend, type SearchBackend } from './backends';
+import { goldenDatasetSchema, runEvaluation } from './harness';
+import { checkThresholds, reportToMarkdown, type Thresholds } from './report';
+
+const { values: args } = parseArgs({
+    options: {
+        'dataset': { type: 'string', default: 'eval/datasets/sample.json' },
+        'fixtures': { type: 'string' },
+        // Search the live AutoRAG instances (CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN) instead of fixtures
+        'autorag': { type: 'boolean', default: false },
+        // MODEL_DEFAULT for the loop; MODEL_* environment variables still apply per role
+        'model': { type: 'string' },
+        'judge-model': { type: 'string', default: 'mock:judge' },
+        'k': { type: 'string', default: '5' },
+        'out': { type: 'string', default: 'eval/results' },
+        'min-recall': { type: 'string' },
+        'min-mrr': { type: 'string' },
+        'min-faithfulness': { type: 'string' },
+        'min-relevance': { type: 'string' },
+    },
+});
+
+function threshold(value: string | undefined): number | undefined {
+    return value === undefined ? undefined : parseFloat(value);
+}
+
+async function main() {
+    const datasetPath = resolve(args.dataset);
+    const dataset = goldenDatasetSchema.parse(JSON.parse(readFileSync(datasetPath, 'utf8')));
+
+    let backend: SearchBackend;
+    if (args.autorag) {
+        const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+        const apiToken = process.env.CLOUDFLARE_API_TOKEN;
+        if (!accountId || !apiToken) {
+            throw new Error('--autorag needs CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN');
+        }
+        backend = autoRagRestBackend(accountId, apiToken);
+    } else {
+        const fixtures = args.fixtures ? resolve(args.fixtures) : dataset.fixtures && join(dirname(datasetPath), dataset.fixtures);
+        if (!fixtures) {
+            throw new Error('No fixtures: set "fixtures" in the dataset, pass --fixtures or use --autorag');
+        }
+        backend = fixtureBackend(JSON.parse(readFileSync(fixtures, 'utf8')));
+    }
+
+    const report = await runEvaluation({
+        dataset,
+        backend,
+        vars: {
+            ...process.env,
+            MODEL_DEFAULT: args.model || process.env.MODEL_DEFAULT || 'mock:default',
+        } as any,
+        judgeModel: args['judge-model'],
+        k: parseInt(args.k, 10),
+        onCase: (result) => {
+            console.log(`[Eval] ${result.id}: ${result.error ? `error (${result.error})` : `recall ${result.recall ?? 'n/a'}, RR ${result.reciprocalRank ?? 'n/a'}, ${result.iterations} iteration(s)`}`);
+        },
+    });
+
+    const thresholds: Thresholds = {
+        recall: threshold(args['min-recall']),
+        mrr: threshold(args['min-mrr']),
+        faithfulness: threshold(args['min-faithfulness']),
+        relevance: threshold(args['min-relevance']),
+    };
+    const failures = checkThresholds(report.summary, thresholds);
+
+    mkdirSync(args.out, { recursive: true });
+    const name = `${basename(datasetPath, '.json')}-${report.startedAt.replace(/[:.]/g, '-')}`;
+    const markdown = reportToMarkdown(report, failures);
+    writeFileSync(join(args.out, `${name}.json`), JSON.stringify({ ...report, failures }, null, 2));
+    writeFileSync(join(args.out, `${name}.md`), markdown);
+
+    console.log('\n' + markdown);
+    console.log(`[Eval] Reports written to ${join(args.out, name)}.{json,md}`);
+
+    if (failures.length > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error('[Eval]', error);
+    process.exitCode = 1;
+});
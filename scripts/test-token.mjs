@@ -0,0 +1,40 @@
+// Mint a token for AUTH_MODE=test, signed with AUTH_TEST_KEY (from the environment or .dev.vars)
+//   npm run token -- <user id> [group,group...] [--email user@example.com]
+import { readFileSync } from 'node:fs';
+import { SignJWT } from 'jose';
+
+function testKey() {
+    if (process.env.AUTH_TEST_KEY) {
+        return process.env.AUTH_TEST_KEY;
+    }
+    try {
+        const match = readFileSync('.dev.vars', 'utf8').match(/^AUTH_TEST_KEY\s*=\s*"?([^"\n]+)"?/m);
+        return match ? match[1].trim() : null;
+    } catch (error) {
+        return null;
+    }
+}
+
+const args = process.argv.slice(2);
+const emailIndex = args.indexOf('--email');
+const email = emailIndex >= 0 ? args.splice(emailIndex, 2)[1] : undefined;
+const [userId, groups] = args;
+
+const key = testKey();
+if (!userId || !key) {
+    console.error('Usage: npm run token -- <user id> [group,group...] [--email address]');
+    console.error('AUTH_TEST_KEY must be set in the environment or in .dev.vars');
+    process.exit(1);
+}
+
+const token = await new SignJWT({
+    ...(email ? { email } : {}),
+    groups: groups ? groups.split(',').filter(Boolean) : [],
+})
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(userId)
+    .setIssuedAt()
+    .setExpirationTime('30d')
+    .sign(new TextEncoder().encode(key));
+
+console.log(token);
@@ -0,0 +1,130 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { CachedAnswer, CacheHit, CacheKey } from './answer-cache';
+import type { Env } from './types';
+
+// Oldest entries beyond this are dropped per scope
+const MAX_ENTRIES_PER_SCOPE = 1000;
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Answers shared by every room, in a single SQLite-backed Durable Object
+export class AnswerCache extends DurableObject<Env> {
+    constructor(ctx: DurableObjectState, env: Env) {
+        super(ctx, env);
+        this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS answers (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            scope TEXT NOT NULL,
+            query_key TEXT NOT NULL,
+            query TEXT NOT NULL,
+            rags TEXT NOT NULL,
+            embedding TEXT,
+            answer TEXT NOT NULL,
+            files TEXT NOT NULL,
+            citations TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            expires_at INTEGER NOT NULL,
+            hits INTEGER NOT NULL DEFAULT 0
+        )`);
+        this.ctx.storage.sql.exec('CREATE INDEX IF NOT EXISTS answers_scope ON answers (scope, query_key)');
+    }
+
+    async lookup(key: CacheKey, similarityThreshold: number): Promise<CacheHit | null> {
+        const now = Date.now();
+        const sql = this.ctx.storage.sql;
+
+        const exact = sql.exec(
+            'SELECT * FROM answers WHERE scope = ? AND query_key = ? AND expires_at > ? ORDER BY created_at DESC LIMIT 1',
+            key.scope, key.queryKey, now
+        ).toArray();
+        if (exact.length > 0) {
+            sql.exec('UPDATE answers SET hits = hits + 1 WHERE id = ?', exact[0].id);
+            return { ...toCachedAnswer(exact[0]), tier: 'exact', similarity: 1 };
+        }
+
+        if (!key.embedding) {
+            return null;
+        }
+
+        let best: { row: Record<string, SqlStorageValue>, similarity: number } | null = null;
+        for (const row of sql.exec('SELECT * FROM answers WHERE scope = ? AND expires_at > ? AND embedding IS NOT NULL', key.scope, now)) {
+            const similarity = cosineSimilarity(key.embedding, JSON.parse(row.embedding as string));
+            if (similarity >= similarityThreshold && (!best || similarity > best.similarity)) {
+                best = { row, similarity };
+            }
+        }
+        if (!best) {
+            return null;
+        }
+
+        sql.exec('UPDATE answers SET hits = hits + 1 WHERE id = ?', best.row.id);
+        return { ...toCachedAnswer(best.row), tier: 'semantic', similarity: best.similarity };
+    }
+
+    async store(key: CacheKey, entry: CachedAnswer, ttlSeconds: number) {
+        const sql = this.ctx.storage.sql;
+        sql.exec('DELETE FROM answers WHERE expires_at <= ?', Date.now());
+        sql.exec(
+            `INSERT INTO answers (scope, query_key, query, rags, embedding, answer, files, citations, created_at, expires_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            key.scope,
+            key.queryKey,
+            entry.query,
+            JSON.stringify(key.rags),
+            key.embedding ? JSON.stringify(key.embedding) : null,
+            entry.answer,
+            JSON.stringify(entry.files),
+            JSON.stringify(entry.citations),
+            entry.createdAt,
+            entry.createdAt + ttlSeconds * 1000
+        );
+        sql.exec(
+            `DELETE FROM answers WHERE scope = ? AND id NOT IN (
+                SELECT id FROM answers WHERE scope = ? ORDER BY created_at DESC LIMIT ?
+            )`,
+            key.scope, key.scope, MAX_ENTRIES_PER_SCOPE
+        );
+    }
+
+    // Drop every answer that involved a RAG instance (or all answers); returns how many were removed
+    async invalidate(rag?: string): Promise<number> {
+        const cursor = rag
+            ? this.ctx.storage.sql.exec('DELETE FROM answers WHERE EXISTS (SELECT 1 FROM json_each(answers.rags) WHERE json_each.value = ?)', rag)
+            : this.ctx.storage.sql.exec('DELETE FROM answers');
+        return cursor.rowsWritten;
+    }
+
+    async stats(): Promise<{ entries: number, hits: number, byRag: Record<string, number> }> {
+        const now = Date.now();
+        const totals = this.ctx.storage.sql.exec(
+            'SELECT COUNT(*) AS entries, COALESCE(SUM(hits), 0) AS hits FROM answers WHERE expires_at > ?', now
+        ).one();
+        const byRag: Record<string, number> = {};
+        for (const row of this.ctx.storage.sql.exec(
+            'SELECT json_each.value AS rag, COUNT(*) AS entries FROM answers, json_each(answers.rags) WHERE expires_at > ? GROUP BY json_each.value', now
+        )) {
+            byRag[row.rag as string] = row.entries as number;
+        }
+        return { entries: totals.entries as number, hits: totals.hits as number, byRag };
+    }
+}
+
+function toCachedAnswer(row: Record<string, SqlStorageValue>): CachedAnswer {
+    return {
+        query: row.query as string,
+        rags: JSON.parse(row.rags as string),
+        answer: row.answer as string,
+        files: JSON.parse(row.files as string),
+        citations: JSON.parse(row.citations as string),
+        createdAt: row.created_at as number,
+    };
+}
@@ -0,0 +1,79 @@
+// Answer cache keys and settings, used by the search loop. The Durable Object is in answer-cache-store.ts.
+import type { AnswerCache } from './answer-cache-store';
+import type { Citation } from './evidence';
+import { resolveModelSpecs, type ModelConfig } from './models';
+import type { RetrievalSettings } from './retrieval';
+import type { SearchFile } from './search-loop';
+import type { Env } from './types';
+
+export interface CachedAnswer {
+    query: string;
+    rags: string[];
+    answer: string;
+    files: SearchFile[];
+    citations: Citation[];
+    createdAt: number;
+}
+
+export interface CacheHit extends CachedAnswer {
+    tier: 'exact' | 'semantic';
+    // Cosine similarity between the queries (1 for exact hits)
+    similarity: number;
+}
+
+// Identifies a question within the cache: scope (RAGs, retrieval settings, models and memory), normalized query and its embedding
+export interface CacheKey {
+    scope: string;
+    queryKey: string;
+    embedding: number[] | null;
+    rags: string[];
+}
+
+export interface AnswerCacheSettings {
+    enabled: boolean;
+    ttlSeconds: number;
+    similarityThreshold: number;
+    embeddingModel: string;
+}
+
+export function answerCacheSettings(env: Env): AnswerCacheSettings {
+    return {
+        enabled: env.ANSWER_CACHE_ENABLED !== 'false' && !!env.AnswerCache,
+        ttlSeconds: parseInt(env.ANSWER_CACHE_TTL_SECONDS || '', 10) || 3600,
+        similarityThreshold: parseFloat(env.ANSWER_CACHE_SIMILARITY || '') || 0.95,
+        embeddingModel: env.ANSWER_CACHE_EMBEDDING_MODEL || '@cf/baai/bge-base-en-v1.5',
+    };
+}
+
+async function sha256(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Case, whitespace and trailing punctuation don't make a different question
+function normalizeQuery(query: string): string {
+    return query.toLowerCase().replace(/\s+/g, ' ').replace(/[\s?!.]+$/, '').trim();
+}
+
+// Build the cache key of a question. The embedding is skipped (exact tier only) if Workers AI fails.
+// The cache is shared by every room, so answers of runs with model overrides only match runs with the same models,
+// and answers shaped by a room's memory (the memory section of the prompts) only match runs given the same memory.
+export async function createCacheKey(env: Env, rags: string[], query: string, retrieval: RetrievalSettings, models: ModelConfig = {}, memory = ''): Promise<CacheKey> {
+    const sortedRags = [...rags].sort();
+    const scope = await sha256(JSON.stringify({ rags: sortedRags, retrieval, models: resolveModelSpecs(env, models), memory }));
+    const queryKey = await sha256(normalizeQuery(query));
+
+    let embedding: number[] | null = null;
+    try {
+        const response = await env.AI.run(answerCacheSettings(env).embeddingModel, { text: [query] });
+        embedding = response.data?.[0] || null;
+    } catch (error) {
+        console.error('[Agent] Cache embedding failed, semantic tier disabled for this query:', error);
+    }
+
+    return { scope, queryKey, embedding, rags: sortedRags };
+}
+
+export function getAnswerCache(env: Env): DurableObjectStub<AnswerCache> {
+    return env.AnswerCache.get(env.AnswerCache.idFromName('global'));
+}
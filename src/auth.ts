@@ -0,0 +1,221 @@
+import { createRemoteJWKSet, errors as joseErrors, jwtVerify, type JWTPayload } from 'jose';
+import { z } from 'zod';
+import { getRoomRegistry } from './room-registry';
+import type { Env } from './types';
+
+export interface AuthUser {
+    id: string;
+    email?: string;
+    groups: string[];
+}
+
+// What a request may do. user is null when auth is off, which allows everything.
+export interface AccessScope {
+    user: AuthUser | null;
+    // RAG instances the user may search, or null for all of them
+    rags: string[] | null;
+    // R2 key prefixes the user may download regardless of search results
+    documentPrefixes: string[];
+    isAdmin: boolean;
+}
+
+// ACCESS_POLICY: RAG allowlist per group ("*" applies to every user) and the documents each RAG exposes
+const accessPolicySchema = z.object({
+    groups: z.record(z.string(), z.array(z.string())).optional(),
+    ragPrefixes: z.record(z.string(), z.array(z.string())).default({}),
+    adminGroup: z.string().default('admin'),
+});
+
+type AccessPolicy = z.infer<typeof accessPolicySchema>;
+
+// Set by the Worker on requests forwarded to a room, after dropping any client-supplied value
+export const AUTH_CONTEXT_HEADER = 'X-Auth-Context';
+
+// JWKS are fetched once per isolate and refreshed by jose when keys rotate
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+function remoteJwks(url: string) {
+    let jwks = jwksCache.get(url);
+    if (!jwks) {
+        jwks = createRemoteJWKSet(new URL(url));
+        jwksCache.set(url, jwks);
+    }
+    return jwks;
+}
+
+function unauthorized(error: string): Response {
+    return Response.json({ success: false, error }, { status: 401 });
+}
+
+// Bearer token, or ?token= for clients that cannot set headers (WebSockets, download links)
+function bearerToken(request: Request): string | null {
+    const header = request.headers.get('Authorization') || '';
+    if (header.startsWith('Bearer ')) {
+        return header.substring(7).trim();
+    }
+    return new URL(request.url).searchParams.get('token');
+}
+
+function cookie(request: Request, name: string): string | null {
+    for (const part of (request.headers.get('Cookie') || '').split(';')) {
+        const [key, ...value] = part.trim().split('=');
+        if (key === name) {
+            return value.join('=');
+        }
+    }
+    return null;
+}
+
+function toUser(payload: JWTPayload, env: Env): AuthUser | null {
+    const claims = payload as Record<string, any>;
+    const id = claims.sub || claims.email;
+    if (!id) {
+        return null;
+    }
+    const groups = claims[env.AUTH_GROUPS_CLAIM || 'groups'];
+    return {
+        id: String(id),
+        ...(claims.email ? { email: String(claims.email) } : {}),
+        groups: Array.isArray(groups) ? groups.map(String) : (typeof groups === 'string' ? [groups] : []),
+    };
+}
+
+// Verify the caller according to AUTH_MODE:
+//   none   - no auth (default, for local development)
+//   jwt    - bearer JWT verified against AUTH_JWKS_URL (and AUTH_ISSUER / AUTH_AUDIENCE if set)
+//   access - Cloudflare Access JWT from Cf-Access-Jwt-Assertion or the CF_Authorization cookie
+//   test   - bearer JWT signed with the AUTH_TEST_KEY secret (HS256), see `npm run token`
+export async function authenticate(request: Request, env: Env): Promise<{ user: AuthUser | null, error?: Response }> {
+    const mode = env.AUTH_MODE || 'none';
+    if (mode === 'none') {
+        return { user: null };
+    }
+
+    try {
+        let payload: JWTPayload;
+        if (mode === 'jwt') {
+            if (!env.AUTH_JWKS_URL) {
+                throw new Error('AUTH_JWKS_URL is required in jwt mode');
+            }
+            const token = bearerToken(request);
+            if (!token) {
+                return { user: null, error: unauthorized('Missing bearer token') };
+            }
+            ({ payload } = await jwtVerify(token, remoteJwks(env.AUTH_JWKS_URL), {
+                ...(env.AUTH_ISSUER ? { issuer: env.AUTH_ISSUER } : {}),
+                ...(env.AUTH_AUDIENCE ? { audience: env.AUTH_AUDIENCE } : {}),
+            }));
+        } else if (mode === 'access') {
+            if (!env.ACCESS_TEAM_DOMAIN || !env.ACCESS_AUD) {
+                throw new Error('ACCESS_TEAM_DOMAIN and ACCESS_AUD are required in access mode');
+            }
+            const token = request.headers.get('Cf-Access-Jwt-Assertion') || cookie(request, 'CF_Authorization');
+            if (!token) {
+                return { user: null, error: unauthorized('Missing Cloudflare Access token') };
+            }
+            ({ payload } = await jwtVerify(token, remoteJwks(`https://${env.ACCESS_TEAM_DOMAIN}/cdn-cgi/access/certs`), {
+                issuer: `https://${env.ACCESS_TEAM_DOMAIN}`,
+                audience: env.ACCESS_AUD,
+            }));
+        } else if (mode === 'test') {
+            if (!env.AUTH_TEST_KEY) {
+                throw new Error('AUTH_TEST_KEY is required in test mode');
+            }
+            const token = bearerToken(request);
+            if (!token) {
+                return { user: null, error: unauthorized('Missing bearer token') };
+            }
+            ({ payload } = await jwtVerify(token, new TextEncoder().encode(env.AUTH_TEST_KEY), { algorithms: ['HS256'] }));
+        } else {
+            throw new Error(`Unknown AUTH_MODE "${mode}"`);
+        }
+
+        const user = toUser(payload, env);
+        if (!user) {
+            return { user: null, error: unauthorized('Token has no subject') };
+        }
+        return { user };
+    } catch (error: any) {
+        // Bad tokens are the caller's problem; failing to fetch keys or missing config is ours
+        if (error instanceof joseErrors.JOSEError && !(error instanceof joseErrors.JWKSTimeout)) {
+            console.log('[Worker] Rejected token:', error.code);
+            return { user: null, error: unauthorized('Invalid token') };
+        }
+        console.error('[Worker] Auth error:', error);
+        return { user: null, error: Response.json({ success: false, error: 'Authentication is misconfigured' }, { status: 500 }) };
+    }
+}
+
+function loadPolicy(env: Env): AccessPolicy {
+    const raw = typeof env.ACCESS_POLICY === 'string' ? JSON.parse(env.ACCESS_POLICY) : env.ACCESS_POLICY;
+    return accessPolicySchema.parse(raw || {});
+}
+
+// Resolve what the user may access from ACCESS_POLICY
+export function resolveAccess(user: AuthUser | null, env: Env): AccessScope {
+    if (!user) {
+        return { user: null, rags: null, documentPrefixes: [], isAdmin: true };
+    }
+
+    const policy = loadPolicy(env);
+    const isAdmin = user.groups.includes(policy.adminGroup);
+    // Without a group allowlist every RAG is allowed
+    let rags: string[] | null = null;
+    if (policy.groups && !isAdmin) {
+        const allowed = new Set<string>();
+        for (const group of ['*', ...user.groups]) {
+            for (const rag of policy.groups[group] || []) {
+                allowed.add(rag);
+            }
+        }
+        rags = Array.from(allowed);
+    }
+
+    const documentPrefixes = Object.entries(policy.ragPrefixes)
+        .filter(([rag]) => rags === null || rags.includes(rag))
+        .flatMap(([, prefixes]) => prefixes);
+
+    return { user, rags, documentPrefixes, isAdmin };
+}
+
+export function filterRags(rags: string[], allowed: string[] | null | undefined): string[] {
+    return allowed ? rags.filter((rag) => allowed.includes(rag)) : rags;
+}
+
+// A document can be downloaded if it was in the user's search results or is under an allowed prefix
+export async function canReadDocument(access: AccessScope, env: Env, path: string): Promise<boolean> {
+    if (!access.user) {
+        return true;
+    }
+    if (access.documentPrefixes.some((prefix) => path.startsWith(prefix))) {
+        return true;
+    }
+    return await getRoomRegistry(env).hasDocumentGrant(access.user.id, path);
+}
+
+// Remember the documents shown to a user so they can download them
+export async function grantDocuments(env: Env, userId: string | undefined, filenames: string[]) {
+    if (!userId || filenames.length === 0) {
+        return;
+    }
+    try {
+        await getRoomRegistry(env).grantDocuments(userId, filenames);
+    } catch (error) {
+        console.error('[Worker] Error granting documents:', error);
+    }
+}
+
+// Forward the caller's identity and RAG allowlist to a room
+export function withAuthContext(request: Request, access: AccessScope): Request {
+    const headers = new Headers(request.headers);
+    headers.delete(AUTH_CONTEXT_HEADER);
+    if (access.user) {
+        headers.set(AUTH_CONTEXT_HEADER, JSON.stringify({ userId: access.user.id, rags: access.rags }));
+    }
+    return new Request(request, { headers });
+}
+
+export function readAuthContext(request: Request): { userId: string, rags: string[] | null } | null {
+    const header = request.headers.get(AUTH_CONTEXT_HEADER);
+    return header ? JSON.parse(header) : null;
+}
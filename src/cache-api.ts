@@ -0,0 +1,31 @@
+import { getAnswerCache } from './answer-cache';
+import type { Env } from './types';
+
+// /api/cache routes: answer cache statistics and invalidation
+//   GET    /api/cache
+//   DELETE /api/cache?rag=name   (drops answers that used this RAG instance, or every answer without rag)
+export async function handleCacheRequest(request: Request, env: Env, url: URL): Promise<Response> {
+    if (!env.AnswerCache) {
+        return Response.json({ success: false, error: 'Answer cache is not configured' }, { status: 404 });
+    }
+
+    try {
+        const cache = getAnswerCache(env);
+
+        if (request.method === 'GET') {
+            return Response.json({ success: true, ...await cache.stats() });
+        }
+
+        if (request.method === 'DELETE') {
+            const rag = url.searchParams.get('rag') || undefined;
+            const removed = await cache.invalidate(rag);
+            console.log('[Worker] Invalidated', removed, 'cached answers', rag ? `for ${rag}` : '');
+            return Response.json({ success: true, removed });
+        }
+
+        return Response.json({ success: false, error: 'Method not allowed' }, { status: 405 });
+    } catch (error: any) {
+        console.error('[Worker] Cache API error:', error);
+        return Response.json({ success: false, error: error.message }, { status: 500 });
+    }
+}
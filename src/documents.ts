@@ -0,0 +1,319 @@
+import { canReadDocument, type AccessScope } from './auth';
+import type { Env } from './types';
+
+// Content types by extension, for objects uploaded without one
+const CONTENT_TYPES: Record<string, string> = {
+    pdf: 'application/pdf',
+    txt: 'text/plain; charset=utf-8',
+    md: 'text/markdown; charset=utf-8',
+    markdown: 'text/markdown; charset=utf-8',
+    csv: 'text/csv; charset=utf-8',
+    json: 'application/json',
+    xml: 'application/xml',
+    html: 'text/html; charset=utf-8',
+    htm: 'text/html; charset=utf-8',
+    doc: 'application/msword',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xls: 'application/vnd.ms-excel',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ppt: 'application/vnd.ms-powerpoint',
+    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    odt: 'application/vnd.oasis.opendocument.text',
+    ods: 'application/vnd.oasis.opendocument.spreadsheet',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+};
+
+// Documents larger than this are not converted to text for previews
+const MAX_PREVIEW_BYTES = 25 * 1024 * 1024;
+const DEFAULT_PREVIEW_CONTEXT = 1500;
+
+export function contentTypeFor(path: string, stored?: string): string {
+    if (stored && stored !== 'application/octet-stream') {
+        return stored;
+    }
+    const extension = path.split('.').pop()?.toLowerCase() || '';
+    return CONTENT_TYPES[extension] || 'application/octet-stream';
+}
+
+// Parse a single "bytes=" range against the object size: undefined means serve the whole object
+// (no, invalid or multi-part range, e.g. bytes=10-5), null means a valid range that cannot be satisfied
+export function parseByteRange(header: string, size: number): R2Range | null | undefined {
+    const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+    if (!match || (!match[1] && !match[2])) {
+        return undefined;
+    }
+    if (!match[1]) {
+        const suffix = parseInt(match[2], 10);
+        if (suffix === 0 || size === 0) {
+            return null;
+        }
+        return { offset: Math.max(0, size - suffix), length: Math.min(suffix, size) };
+    }
+    const start = parseInt(match[1], 10);
+    if (match[2] && parseInt(match[2], 10) < start) {
+        return undefined;
+    }
+    if (start >= size) {
+        return null;
+    }
+    const end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+    return { offset: start, length: end - start + 1 };
+}
+
+function contentDisposition(type: 'inline' | 'attachment', filename: string): string {
+    const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+    return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+function documentHeaders(object: R2Object, path: string, access: AccessScope, download: boolean): Headers {
+    const filename = path.split('/').pop() || path;
+    const headers = new Headers();
+    object.writeHttpMetadata(headers);
+    headers.set('Content-Type', contentTypeFor(path, object.httpMetadata?.contentType));
+    headers.set('Content-Disposition', contentDisposition(download ? 'attachment' : 'inline', filename));
+    headers.set('ETag', object.httpEtag);
+    headers.set('Last-Modified', object.uploaded.toUTCString());
+    headers.set('Accept-Ranges', 'bytes');
+    // Access-controlled documents must not be shared by caches
+    headers.set('Cache-Control', access.user ? 'private, max-age=3600' : 'public, max-age=31536000');
+    // Documents are shown inline on our origin, so HTML or SVG in them must not run scripts
+    headers.set('Content-Security-Policy', 'sandbox');
+    headers.set('X-Content-Type-Options', 'nosniff');
+    return headers;
+}
+
+function notModified(request: Request, object: R2Object): boolean {
+    const ifNoneMatch = request.headers.get('If-None-Match');
+    if (ifNoneMatch) {
+        const etags = ifNoneMatch.split(',').map((etag) => etag.trim().replace(/^W\//, ''));
+        return etags.includes('*') || etags.includes(object.httpEtag);
+    }
+    const ifModifiedSince = request.headers.get('If-Modified-Since');
+    return !!ifModifiedSince && object.uploaded.getTime() <= Date.parse(ifModifiedSince) + 999;
+}
+
+// GET/HEAD /documents/<path>: inline by default (?download=1 for an attachment), with Range and conditional requests
+async function serveDocument(request: Request, env: Env, path: string, access: AccessScope, download: boolean): Promise<Response> {
+    const head = await env.BUCKET.head(path);
+    if (!head) {
+        console.error('[Worker] Document not found in R2:', path);
+        return Response.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const headers = documentHeaders(head, path, access, download);
+    if (notModified(request, head)) {
+        return new Response(null, { status: 304, headers });
+    }
+
+    // A range only applies to the version the client has (If-Range), otherwise the whole object is sent
+    let range: R2Range | null | undefined;
+    const rangeHeader = request.headers.get('Range');
+    const ifRange = request.headers.get('If-Range');
+    if (rangeHeader && (!ifRange || ifRange === head.httpEtag)) {
+        range = parseByteRange(rangeHeader, head.size);
+        if (range === null) {
+            headers.set('Content-Range', `bytes */${head.size}`);
+            return new Response(null, { status: 416, headers });
+        }
+    }
+
+    if (request.method === 'HEAD') {
+        headers.set('Content-Length', String(head.size));
+        return new Response(null, { headers });
+    }
+
+    // Ask R2 for the same version we checked, in case the object was replaced in between
+    const object = await env.BUCKET.get(path, { range, onlyIf: { etagMatches: head.etag } });
+    if (!object || !('body' in object)) {
+        return Response.json({ error: 'File changed while it was being read, please retry' }, { status: 409 });
+    }
+
+    if (range && 'offset' in range) {
+        const end = range.offset! + range.length! - 1;
+        headers.set('Content-Range', `bytes ${range.offset}-${end}/${object.size}`);
+        headers.set('Content-Length', String(range.length));
+        return new Response(object.body, { status: 206, headers });
+    }
+
+    headers.set('Content-Length', String(object.size));
+    return new Response(object.body, { headers });
+}
+
+const TEXT_TYPES = /^(text\/(?!html)|application\/(json|xml))/;
+
+// Plain text of a document: text files are decoded, everything else is converted with Workers AI.
+// Conversions are kept in the edge cache per object version.
+async function extractText(env: Env, path: string, object: R2ObjectBody): Promise<string> {
+    const contentType = contentTypeFor(path, object.httpMetadata?.contentType);
+    if (TEXT_TYPES.test(contentType)) {
+        return await object.text();
+    }
+
+    const cacheKey = new Request(`https://document-text.internal/${encodeURIComponent(path)}?etag=${object.etag}`);
+    const cached = await caches.default.match(cacheKey);
+    if (cached) {
+        return await cached.text();
+    }
+
+    const blob = new Blob([await object.arrayBuffer()], { type: contentType });
+    const result = await env.AI.toMarkdown({ name: path.split('/').pop() || path, blob });
+    if (result.format === 'error') {
+        throw new Error(`Could not extract text: ${result.error}`);
+    }
+
+    await caches.default.put(cacheKey, new Response(result.data, { headers: { 'Cache-Control': 'max-age=86400' } }));
+    return result.data;
+}
+
+// Locate a chunk in the document text. Whitespace is ignored and case folded; when the opening words
+// are not found verbatim, fewer of them are tried. Returns offsets into the original text.
+export function locateChunk(text: string, chunk: string, length: number): { start: number, end: number } | null {
+    // Collapse whitespace, remembering where each normalized character came from
+    let normalized = '';
+    const positions = new Uint32Array(text.length);
+    for (let i = 0; i < text.length; i++) {
+        const isSpace = /\s/.test(text[i]);
+        if (isSpace && (normalized.length === 0 || normalized.endsWith(' '))) {
+            continue;
+        }
+        positions[normalized.length] = i;
+        normalized += isSpace ? ' ' : text[i].toLowerCase();
+    }
+
+    const words = chunk.replace(/\s+/g, ' ').trim().toLowerCase().split(' ').filter(Boolean);
+    const attempts = new Set([words.length, 12, 8, 5].filter((count) => count > 0 && count <= words.length));
+    for (const count of attempts) {
+        const index = normalized.indexOf(words.slice(0, count).join(' '));
+        if (index !== -1) {
+            const endIndex = Math.min(normalized.length, index + Math.max(length, 1)) - 1;
+            return { start: positions[index], end: positions[endIndex] + 1 };
+        }
+    }
+    return null;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function previewPage(filename: string, documentHref: string, before: string, match: string, after: string, found: boolean): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(filename)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 1px solid #e5e7eb; margin-bottom: 1rem; }
+pre { white-space: pre-wrap; font-family: inherit; line-height: 1.6; }
+mark { background: #fde68a; padding: 0.1rem 0; }
+.note { color: #6b7280; font-size: 0.875rem; }
+</style>
+</head>
+<body>
+<header><h1>${escapeHtml(filename)}</h1><a href="${escapeHtml(documentHref)}">Open document</a></header>
+${found ? '' : '<p class="note">The cited passage could not be found in the extracted text; showing the start of the document.</p>'}
+<pre>${before ? '… ' : ''}${escapeHtml(before)}<mark id="match">${escapeHtml(match)}</mark>${escapeHtml(after)}${after ? ' …' : ''}</pre>
+</body>
+</html>`;
+}
+
+// GET /documents/<path>/preview?chunk=<opening words>&length=<chars>&context=<chars>[&format=json]
+// Extracted text around a chunk with the chunk highlighted, as HTML or JSON
+async function previewDocument(request: Request, env: Env, url: URL, path: string, access: AccessScope): Promise<Response> {
+    const chunk = url.searchParams.get('chunk') || '';
+    const length = parseInt(url.searchParams.get('length') || '', 10) || chunk.length;
+    const context = Math.min(parseInt(url.searchParams.get('context') || '', 10) || DEFAULT_PREVIEW_CONTEXT, 10000);
+
+    const object = await env.BUCKET.get(path);
+    if (!object) {
+        return Response.json({ success: false, error: 'File not found' }, { status: 404 });
+    }
+    if (object.size > MAX_PREVIEW_BYTES) {
+        return Response.json({ success: false, error: 'File is too large to preview' }, { status: 413 });
+    }
+
+    const text = await extractText(env, path, object);
+    const location = chunk ? locateChunk(text, chunk, length) : null;
+    const start = location?.start ?? 0;
+    const end = location?.end ?? 0;
+    const before = text.substring(Math.max(0, start - context), start);
+    const match = text.substring(start, end);
+    const after = text.substring(end, end + context);
+
+    const headers = new Headers({
+        'Cache-Control': access.user ? 'private, max-age=3600' : 'public, max-age=3600',
+        'Vary': 'Accept',
+    });
+    const filename = path.split('/').pop() || path;
+
+    if (url.searchParams.get('format') === 'json' || (request.headers.get('Accept') || '').includes('application/json')) {
+        return Response.json({
+            success: true,
+            filename: path,
+            found: !!location,
+            offset: start,
+            length: end - start,
+            before,
+            match,
+            after,
+        }, { headers });
+    }
+
+    // Keep the access token on the link back to the document
+    const documentLink = new URL(url.pathname.replace(/\/preview$/, ''), url);
+    const token = url.searchParams.get('token');
+    if (token) {
+        documentLink.searchParams.set('token', token);
+    }
+
+    headers.set('Content-Type', 'text/html; charset=utf-8');
+    return new Response(previewPage(filename, documentLink.pathname + documentLink.search, before, match, after, !!location), { headers });
+}
+
+// /documents/ routes
+//   GET|HEAD /documents/<path>            inline document (?download=1 for an attachment)
+//   GET      /documents/<path>/preview    extracted text around a chunk, highlighted
+export async function handleDocumentRequest(request: Request, env: Env, url: URL, access: AccessScope): Promise<Response> {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+        return Response.json({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    // Links encode the whole path as one segment, so a trailing /preview is never part of the file name
+    const isPreview = url.pathname.endsWith('/preview');
+    const filePath = url.pathname.replace('/documents/', '').replace(/\/preview$/, '');
+    if (!filePath) {
+        return Response.json({ error: 'File path required' }, { status: 400 });
+    }
+
+    // Decode the filePath to handle encoded slashes; a malformed escape (e.g. a lone %) is a bad request
+    let decodedPath: string;
+    try {
+        decodedPath = decodeURIComponent(filePath);
+    } catch {
+        return Response.json({ error: 'Invalid file path' }, { status: 400 });
+    }
+
+    if (!await canReadDocument(access, env, decodedPath)) {
+        return Response.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    console.log('[Worker] Fetching document from R2:', decodedPath, isPreview ? '(preview)' : request.headers.get('Range') || '');
+
+    try {
+        if (isPreview) {
+            return await previewDocument(request, env, url, decodedPath, access);
+        }
+        const download = url.searchParams.has('download') && url.searchParams.get('download') !== '0';
+        return await serveDocument(request, env, decodedPath, access, download);
+    } catch (error: any) {
+        console.error('[Worker] Error fetching document:', error);
+        return Response.json({ error: isPreview ? error.message : 'Failed to fetch document' }, { status: 500 });
+    }
+}
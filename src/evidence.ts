@@ -0,0 +1,82 @@
+export interface EvidenceChunk {
+    marker: number;
+    rag: string;
+    filename: string;
+    file_id: string;
+    score: number;
+    text: string;
+}
+
+export interface Citation extends EvidenceChunk {
+    url: string;
+    // Extracted text of the document around this chunk, highlighted
+    previewUrl?: string;
+}
+
+// Link to a document through the Worker's /documents/ route (or directly, for URL-sourced files)
+export function documentUrl(filename: string): string {
+    if (filename.startsWith('http://') || filename.startsWith('https://')) {
+        return filename;
+    }
+    return `/documents/${encodeURIComponent(filename)}`;
+}
+
+// Link to the passage a chunk came from: /documents/<path>/preview finds the opening words of the
+// chunk in the extracted document text and highlights length characters from there
+export function documentPreviewUrl(filename: string, text: string): string | undefined {
+    if (filename.startsWith('http://') || filename.startsWith('https://')) {
+        return undefined;
+    }
+    const normalized = text.replace(/\s+/g, ' ').trim();
+    const opening = normalized.split(' ').slice(0, 24).join(' ').substring(0, 200);
+    const params = new URLSearchParams({ chunk: opening, length: String(normalized.length) });
+    return `${documentUrl(filename)}/preview?${params}#match`;
+}
+
+// Numbered store of every chunk retrieved during a run, shared across loop iterations.
+// The same chunk returned by several searches keeps its first marker.
+export class EvidenceStore {
+    private chunks: EvidenceChunk[] = [];
+    private markersByKey = new Map<string, number>();
+
+    add(chunk: Omit<EvidenceChunk, 'marker'>): number {
+        const key = `${chunk.file_id}:${chunk.text}`;
+        const existing = this.markersByKey.get(key);
+        if (existing !== undefined) {
+            return existing;
+        }
+
+        const marker = this.chunks.length + 1;
+        this.chunks.push({ marker, ...chunk });
+        this.markersByKey.set(key, marker);
+        return marker;
+    }
+
+    get(marker: number): EvidenceChunk | undefined {
+        return this.chunks[marker - 1];
+    }
+
+    get size(): number {
+        return this.chunks.length;
+    }
+
+    // Resolve the [n] markers (including grouped ones like [1, 3]) used in a piece of text
+    citationsFor(text: string): Citation[] {
+        const used = new Set<number>();
+        for (const match of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+            for (const value of match[1].split(',')) {
+                const marker = parseInt(value.trim(), 10);
+                if (this.get(marker)) {
+                    used.add(marker);
+                }
+            }
+        }
+
+        return Array.from(used)
+            .sort((a, b) => a - b)
+            .map((marker) => {
+                const chunk = this.get(marker);
+                return { ...chunk, url: documentUrl(chunk.filename), previewUrl: documentPreviewUrl(chunk.filename, chunk.text) };
+            });
+    }
+}
@@ -0,0 +1,112 @@
+import { toAutoRagSearchRequest, type RetrievalSettings } from './retrieval';
+import type { Env } from './types';
+
+export interface RetrievedChunk {
+    // AutoRAG instance the chunk came from
+    rag: string;
+    filename: string;
+    file_id: string;
+    // Score reported by the instance
+    score: number;
+    // Score after fusion across instances, used for ordering
+    fusedScore: number;
+    text: string;
+}
+
+export interface FederatedSearchResult {
+    chunks: RetrievedChunk[];
+    // Query each instance actually searched for (AutoRAG may rewrite it)
+    searchQueries: Record<string, string>;
+    errors: Array<{ rag: string; message: string }>;
+}
+
+// Standard RRF constant: dampens the advantage of the very first ranks
+const RRF_K = 60;
+
+function chunkKey(chunk: { file_id: string; text: string }): string {
+    return `${chunk.file_id}:${chunk.text}`;
+}
+
+// Reciprocal-rank fusion: a chunk scores sum(1 / (k + rank)) over the instances that returned it
+function fuseByRank(lists: RetrievedChunk[][]): RetrievedChunk[] {
+    const fused = new Map<string, RetrievedChunk>();
+    for (const list of lists) {
+        list.forEach((chunk, index) => {
+            const key = chunkKey(chunk);
+            const contribution = 1 / (RRF_K + index + 1);
+            const existing = fused.get(key);
+            if (existing) {
+                existing.fusedScore += contribution;
+            } else {
+                fused.set(key, { ...chunk, fusedScore: contribution });
+            }
+        });
+    }
+    return Array.from(fused.values());
+}
+
+// Score normalization: min-max scale each instance's scores to 0-1, keeping the best score per chunk
+function fuseByScore(lists: RetrievedChunk[][]): RetrievedChunk[] {
+    const fused = new Map<string, RetrievedChunk>();
+    for (const list of lists) {
+        const scores = list.map((chunk) => chunk.score);
+        const min = Math.min(...scores);
+        const range = Math.max(...scores) - min;
+        for (const chunk of list) {
+            const normalized = range > 0 ? (chunk.score - min) / range : chunk.score;
+            const key = chunkKey(chunk);
+            const existing = fused.get(key);
+            if (!existing || normalized > existing.fusedScore) {
+                fused.set(key, { ...chunk, fusedScore: normalized });
+            }
+        }
+    }
+    return Array.from(fused.values());
+}
+
+async function searchInstance(env: Env, rag: string, query: string, settings: RetrievalSettings) {
+    const response = await env.AI.autorag(rag).search(toAutoRagSearchRequest(query, settings));
+    const chunks: RetrievedChunk[] = (response.data || []).map((result: any) => ({
+        rag: rag,
+        filename: result.filename || 'Unknown',
+        file_id: result.file_id,
+        score: Math.round(result.score * 100) / 100,
+        fusedScore: 0,
+        text: result.content?.map((c: any) => c.text).join(' ') || '',
+    }));
+    return { chunks, searchQuery: response.search_query || query };
+}
+
+// Search several AutoRAG instances in parallel and merge their results into one ranking.
+// Instances that fail are reported in `errors`; the search only throws if all of them fail.
+export async function federatedSearch(env: Env, ragNames: string[], query: string, settings: RetrievalSettings): Promise<FederatedSearchResult> {
+    const settled = await Promise.allSettled(
+        ragNames.map((rag) => searchInstance(env, rag, query, settings))
+    );
+
+    const lists: RetrievedChunk[][] = [];
+    const searchQueries: Record<string, string> = {};
+    const errors: Array<{ rag: string; message: string }> = [];
+
+    settled.forEach((outcome, index) => {
+        const rag = ragNames[index];
+        if (outcome.status === 'fulfilled') {
+            lists.push(outcome.value.chunks);
+            searchQueries[rag] = outcome.value.searchQuery;
+        } else {
+            console.error('[Agent] Search error on', rag, outcome.reason);
+            errors.push({ rag, message: outcome.reason?.message || String(outcome.reason) });
+        }
+    });
+
+    if (errors.length === ragNames.length) {
+        throw new Error(errors.map((error) => `${error.rag}: ${error.message}`).join('; '));
+    }
+
+    const fused = settings.fusion === 'score' ? fuseByScore(lists) : fuseByRank(lists);
+    const chunks = fused
+        .sort((a, b) => b.fusedScore - a.fusedScore)
+        .slice(0, settings.maxResults);
+
+    return { chunks, searchQueries, errors };
+}
@@ -0,0 +1,74 @@
+import { feedbackSettings, getFeedbackStore, type FeedbackRating } from './feedback';
+import type { Env } from './types';
+
+// Longest period an export covers
+const MAX_EXPORT_DAYS = 366;
+
+// /api/feedback routes (admins only): export answer feedback and review the files it penalizes
+//   GET    /api/feedback?days=30&rating=up|down&rag=name&format=json|jsonl
+//   GET    /api/feedback/files?rag=name
+//   DELETE /api/feedback/files?rag=name&file_id=id   (forget a file's feedback, e.g. once it was corrected)
+export async function handleFeedbackRequest(request: Request, env: Env, url: URL): Promise<Response> {
+    const settings = feedbackSettings(env);
+    if (!settings.enabled) {
+        return Response.json({ success: false, error: 'Feedback is not configured' }, { status: 404 });
+    }
+
+    const [, , action] = url.pathname.split('/').filter(Boolean);
+    const rag = url.searchParams.get('rag') || undefined;
+    const store = getFeedbackStore(env);
+
+    try {
+        if (!action && request.method === 'GET') {
+            const days = parseInt(url.searchParams.get('days') || '30', 10);
+            if (!Number.isInteger(days) || days < 1 || days > MAX_EXPORT_DAYS) {
+                return Response.json({ success: false, error: `days must be between 1 and ${MAX_EXPORT_DAYS}` }, { status: 400 });
+            }
+            const rating = (url.searchParams.get('rating') || undefined) as FeedbackRating | undefined;
+            if (rating && rating !== 'up' && rating !== 'down') {
+                return Response.json({ success: false, error: 'rating must be up or down' }, { status: 400 });
+            }
+            const format = url.searchParams.get('format') || 'json';
+            if (format !== 'json' && format !== 'jsonl') {
+                return Response.json({ success: false, error: 'Format must be json or jsonl' }, { status: 400 });
+            }
+
+            const feedback = await store.list({ since: Date.now() - days * 24 * 60 * 60 * 1000, rating, rag });
+            if (format === 'jsonl') {
+                return new Response(feedback.map((entry) => JSON.stringify(entry)).join('\n') + (feedback.length > 0 ? '\n' : ''), {
+                    headers: {
+                        'Content-Type': 'application/x-ndjson',
+                        'Content-Disposition': `attachment; filename="feedback-${new Date().toISOString().slice(0, 10)}.jsonl"`,
+                    },
+                });
+            }
+            return Response.json({ success: true, count: feedback.length, feedback });
+        }
+
+        if (action === 'files' && request.method === 'GET') {
+            return Response.json({
+                success: true,
+                settings: { downweightAfter: settings.downweightAfter, excludeAfter: settings.excludeAfter, penalty: settings.penalty },
+                files: await store.fileFeedback(rag ? [rag] : null, settings),
+            });
+        }
+
+        if (action === 'files' && request.method === 'DELETE') {
+            const fileId = url.searchParams.get('file_id');
+            if (!rag || !fileId) {
+                return Response.json({ success: false, error: 'rag and file_id are required' }, { status: 400 });
+            }
+            const cleared = await store.clearFile(rag, fileId);
+            console.log('[Worker] Cleared', cleared, 'feedback signals of', `${rag}:${fileId}`);
+            return Response.json({ success: true, cleared });
+        }
+
+        if (action && action !== 'files') {
+            return Response.json({ success: false, error: 'Not found' }, { status: 404 });
+        }
+        return Response.json({ success: false, error: 'Method not allowed' }, { status: 405 });
+    } catch (error: any) {
+        console.error('[Worker] Feedback API error:', error);
+        return Response.json({ success: false, error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,190 @@
+import { DurableObject } from 'cloudflare:workers';
+import { fileKey, filePenalty, type AnswerFeedback, type FeedbackContext, type FeedbackInput, type FeedbackRating, type FeedbackSettings, type FileFeedback } from './feedback';
+import type { SearchFile } from './search-loop';
+import type { Env } from './types';
+import { ANONYMOUS_USER } from './usage';
+
+export interface FeedbackQuery {
+    // Only feedback given or updated since then (ms)
+    since?: number;
+    rating?: FeedbackRating;
+    // Only feedback on answers that used this RAG instance
+    rag?: string;
+    limit?: number;
+}
+
+function toFeedback(row: Record<string, SqlStorageValue>): AnswerFeedback {
+    return {
+        id: row.id as number,
+        room: row.room as string,
+        messageId: row.message_id as string,
+        userId: row.user_id as string,
+        rating: (row.rating as FeedbackRating | null) || null,
+        comment: row.comment as string,
+        wrongSources: JSON.parse(row.wrong_sources as string),
+        question: row.question as string,
+        ...(row.rewritten_query ? { rewrittenQuery: row.rewritten_query as string } : {}),
+        answer: row.answer as string,
+        searchQueries: JSON.parse(row.search_queries as string),
+        files: JSON.parse(row.files as string),
+        citedFiles: JSON.parse(row.cited_files as string),
+        createdAt: row.created_at as number,
+        updatedAt: row.updated_at as number,
+    };
+}
+
+// Feedback on answers from every room, one entry per user and answer, with the per-file signals
+// derived from it, in a single SQLite-backed Durable Object
+export class FeedbackStore extends DurableObject<Env> {
+    constructor(ctx: DurableObjectState, env: Env) {
+        super(ctx, env);
+        this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS feedback (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            room TEXT NOT NULL,
+            message_id TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            rating TEXT,
+            comment TEXT NOT NULL DEFAULT '',
+            wrong_sources TEXT NOT NULL DEFAULT '[]',
+            question TEXT NOT NULL,
+            rewritten_query TEXT,
+            answer TEXT NOT NULL,
+            search_queries TEXT NOT NULL,
+            files TEXT NOT NULL,
+            cited_files TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL,
+            UNIQUE (room, message_id, user_id)
+        )`);
+        // One row per file a piece of feedback counts for or against
+        this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS feedback_files (
+            feedback_id INTEGER NOT NULL,
+            rag TEXT NOT NULL,
+            file_key TEXT NOT NULL,
+            file_id TEXT NOT NULL,
+            filename TEXT NOT NULL,
+            signal TEXT NOT NULL
+        )`);
+        this.ctx.storage.sql.exec('CREATE INDEX IF NOT EXISTS feedback_files_file ON feedback_files (rag, file_key)');
+    }
+
+    // Record a user's feedback on an answer. Feedback given again on the same answer updates it;
+    // fields left out keep their earlier value.
+    async submit(room: string, messageId: string, userId: string, input: FeedbackInput, context: FeedbackContext): Promise<AnswerFeedback> {
+        const sql = this.ctx.storage.sql;
+        const now = Date.now();
+        const existing = sql.exec('SELECT * FROM feedback WHERE room = ? AND message_id = ? AND user_id = ?', room, messageId, userId)
+            .toArray().map(toFeedback)[0];
+
+        const rating = input.rating !== undefined ? input.rating : existing?.rating ?? null;
+        const comment = input.comment !== undefined ? input.comment : existing?.comment ?? '';
+        // Only files the answer used can be flagged
+        const wrongSources: SearchFile[] = input.wrongSources !== undefined
+            ? input.wrongSources.map((flagged) => {
+                const file = context.files.find((candidate) => candidate.rag === flagged.rag
+                    && (flagged.file_id ? candidate.file_id === flagged.file_id : candidate.filename === flagged.filename));
+                if (!file) {
+                    throw new Error(`"${flagged.filename}" is not a source of this answer`);
+                }
+                return { filename: file.filename, file_id: file.file_id, rag: file.rag };
+            })
+            : existing?.wrongSources ?? [];
+
+        sql.exec(
+            `INSERT INTO feedback (room, message_id, user_id, rating, comment, wrong_sources, question, rewritten_query,
+                answer, search_queries, files, cited_files, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(room, message_id, user_id) DO UPDATE SET
+                rating = excluded.rating,
+                comment = excluded.comment,
+                wrong_sources = excluded.wrong_sources,
+                updated_at = excluded.updated_at`,
+            room, messageId, userId, rating, comment, JSON.stringify(wrongSources), context.question, context.rewrittenQuery || null,
+            context.answer, JSON.stringify(context.searchQueries), JSON.stringify(context.files), JSON.stringify(context.citedFiles), now, now
+        );
+        const feedback = toFeedback(sql.exec('SELECT * FROM feedback WHERE room = ? AND message_id = ? AND user_id = ?', room, messageId, userId).one());
+
+        // Flagged files count as wrong sources; the other cited files share the rating of the answer
+        sql.exec('DELETE FROM feedback_files WHERE feedback_id = ?', feedback.id);
+        const flagged = new Set(feedback.wrongSources.map(fileKey));
+        const signals: Array<{ file: SearchFile; signal: string }> = feedback.wrongSources.map((file) => ({ file, signal: 'wrong-source' }));
+        // A thumbs down that names its wrong sources does not blame the rest
+        if (feedback.rating === 'up' || (feedback.rating === 'down' && flagged.size === 0)) {
+            const cited = new Map(feedback.citedFiles.map((file) => [fileKey(file), file]));
+            for (const [key, file] of cited) {
+                if (!flagged.has(key)) {
+                    signals.push({ file, signal: feedback.rating });
+                }
+            }
+        }
+        for (const { file, signal } of signals) {
+            sql.exec(
+                'INSERT INTO feedback_files (feedback_id, rag, file_key, file_id, filename, signal) VALUES (?, ?, ?, ?, ?, ?)',
+                feedback.id, file.rag, fileKey(file), file.file_id || '', file.filename, signal
+            );
+        }
+        return feedback;
+    }
+
+    // Feedback entries, most recently updated first
+    async list(query: FeedbackQuery = {}): Promise<AnswerFeedback[]> {
+        const conditions: string[] = [];
+        const params: SqlStorageValue[] = [];
+        if (query.since !== undefined) {
+            conditions.push('updated_at >= ?');
+            params.push(query.since);
+        }
+        if (query.rating) {
+            conditions.push('rating = ?');
+            params.push(query.rating);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const entries = this.ctx.storage.sql.exec(`SELECT * FROM feedback ${where} ORDER BY updated_at DESC`, ...params)
+            .toArray().map(toFeedback)
+            .filter((entry) => !query.rag || entry.files.some((file) => file.rag === query.rag));
+        return query.limit ? entries.slice(0, query.limit) : entries;
+    }
+
+    // Feedback counted for and against the files of some RAG instances (all if null), most negative first.
+    // Each user has one vote per file, however many of their answers cited or flagged it. Without auth every
+    // vote comes from the anonymous user, so anonymous feedback votes once per answer instead.
+    async fileFeedback(rags: string[] | null, settings: FeedbackSettings): Promise<FileFeedback[]> {
+        const where = rags ? `WHERE feedback_files.rag IN (${rags.map(() => '?').join(', ')})` : '';
+        const rows = this.ctx.storage.sql.exec(
+            `SELECT rag, file_key, MAX(file_id) AS file_id, MAX(filename) AS filename,
+                SUM(wrong_source > 0) AS wrong_source, SUM(down > 0) AS down, SUM(up > 0) AS up,
+                SUM(MAX(-1, MIN(1, wrong_source + down - up))) AS negative
+             FROM (
+                SELECT feedback_files.rag, feedback_files.file_key, MAX(feedback_files.file_id) AS file_id,
+                    MAX(feedback_files.filename) AS filename, SUM(signal = 'wrong-source') AS wrong_source,
+                    SUM(signal = 'down') AS down, SUM(signal = 'up') AS up
+                FROM feedback_files JOIN feedback ON feedback.id = feedback_files.feedback_id
+                ${where}
+                GROUP BY feedback_files.rag, feedback_files.file_key,
+                    CASE WHEN feedback.user_id = ? THEN feedback.id ELSE feedback.user_id END
+             ) GROUP BY rag, file_key`,
+            ...(rags || []), ANONYMOUS_USER
+        ).toArray();
+        return rows
+            .map((row) => {
+                const negative = row.negative as number;
+                return {
+                    rag: row.rag as string,
+                    file_id: row.file_id as string,
+                    filename: row.filename as string,
+                    wrongSource: row.wrong_source as number,
+                    down: row.down as number,
+                    up: row.up as number,
+                    negative,
+                    penalty: filePenalty(negative, settings),
+                };
+            })
+            .sort((a, b) => b.negative - a.negative);
+    }
+
+    // Forget the signals counted for a file (e.g. once the document was corrected); the feedback entries stay
+    async clearFile(rag: string, fileId: string): Promise<number> {
+        const cursor = this.ctx.storage.sql.exec('DELETE FROM feedback_files WHERE rag = ? AND (file_key = ? OR file_id = ?)', rag, `${rag}:${fileId}`, fileId);
+        return cursor.rowsWritten;
+    }
+}
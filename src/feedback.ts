@@ -0,0 +1,110 @@
+// Answer feedback: schemas, settings and the per-file penalties applied to searches. The Durable Object
+// is in feedback-store.ts.
+import { z } from 'zod';
+import type { FeedbackStore } from './feedback-store';
+import { feedbackFields } from './protocol';
+import type { SearchFile } from './search-loop';
+import type { Env } from './types';
+
+export type FeedbackRating = 'up' | 'down';
+
+// Fields are shared with the WebSocket protocol
+export const feedbackInputSchema = z.object(feedbackFields)
+    .refine((input) => input.rating !== undefined || input.comment !== undefined || input.wrongSources !== undefined, { message: 'Nothing to record' });
+
+export type FeedbackInput = z.infer<typeof feedbackInputSchema>;
+
+// What the answer was built from, kept with the feedback
+export interface FeedbackContext {
+    // The question the answer replied to, and the query searched for it
+    question: string;
+    rewrittenQuery?: string;
+    answer: string;
+    // Queries of every search in the answer's trace
+    searchQueries: string[];
+    files: SearchFile[];
+    // Files cited in the answer; they share the answer's rating
+    citedFiles: SearchFile[];
+}
+
+export interface AnswerFeedback extends FeedbackContext {
+    id: number;
+    room: string;
+    messageId: string;
+    userId: string;
+    rating: FeedbackRating | null;
+    comment: string;
+    wrongSources: SearchFile[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Feedback counted against one file of a RAG instance
+export interface FileFeedback {
+    rag: string;
+    file_id: string;
+    filename: string;
+    // Users who flagged the file as a wrong source
+    wrongSource: number;
+    // Users who gave a thumbs down / up to answers citing the file (without flagging it)
+    down: number;
+    up: number;
+    // Sum of the users' votes: +1 if their wrong-source flags and thumbs down outweigh their thumbs up, -1 if
+    // the other way round
+    negative: number;
+    // Multiplier of the file's search scores: 1 unaffected, 0 excluded
+    penalty: number;
+}
+
+export interface FeedbackSettings {
+    enabled: boolean;
+    // Net negative feedback after which a file's chunks are down-weighted / excluded (0: never)
+    downweightAfter: number;
+    excludeAfter: number;
+    // Score multiplier of down-weighted files
+    penalty: number;
+}
+
+export function feedbackSettings(env: Env): FeedbackSettings {
+    const penalty = parseFloat(env.FEEDBACK_PENALTY || '');
+    return {
+        enabled: env.FEEDBACK_ENABLED !== 'false' && !!env.Feedback,
+        downweightAfter: parseInt(env.FEEDBACK_DOWNWEIGHT_AFTER || '', 10) || 2,
+        excludeAfter: parseInt(env.FEEDBACK_EXCLUDE_AFTER || '', 10) || 5,
+        penalty: penalty >= 0 && penalty <= 1 ? penalty : 0.5,
+    };
+}
+
+// Files are identified by file_id, or by name when AutoRAG did not report one
+export function fileKey(file: { rag: string; file_id?: string; filename: string }): string {
+    return `${file.rag}:${file.file_id || file.filename}`;
+}
+
+export function filePenalty(negative: number, settings: FeedbackSettings): number {
+    if (settings.excludeAfter > 0 && negative >= settings.excludeAfter) {
+        return 0;
+    }
+    if (settings.downweightAfter > 0 && negative >= settings.downweightAfter) {
+        return settings.penalty;
+    }
+    return 1;
+}
+
+export function getFeedbackStore(env: Env): DurableObjectStub<FeedbackStore> {
+    return env.Feedback.get(env.Feedback.idFromName('global'));
+}
+
+// Score multipliers of the penalized files of some RAG instances, by fileKey. Errors never block a search.
+export async function loadFilePenalties(env: Env, rags: string[]): Promise<Record<string, number>> {
+    const settings = feedbackSettings(env);
+    if (!settings.enabled || rags.length === 0) {
+        return {};
+    }
+    try {
+        const files = await getFeedbackStore(env).fileFeedback(rags, settings);
+        return Object.fromEntries(files.filter((file) => file.penalty < 1).map((file) => [fileKey(file), file.penalty]));
+    } catch (error) {
+        console.error('[Agent] Error loading feedback penalties:', error);
+        return {};
+    }
+}
@@ -0,0 +1,276 @@
+import { fileKey } from './feedback';
+import { federatedSearch, type RetrievedChunk } from './federated-search';
+import type { RetrievalSettings } from './retrieval';
+import type { Env } from './types';
+
+// Hybrid retrieval: one vector search per query (sub-question), pooled and deduplicated, then
+// ranked per query by a mix of a semantic score (local reranker, or the vector score) and BM25
+// keyword relevance, so exact terms like report numbers count even when the embedding misses them.
+
+// Scores how relevant each text is to a query, 0 to 1. Plug in another one through the scorer
+// option of runAgenticSearch.
+export interface ChunkScorer {
+    name: string;
+    score(query: string, texts: string[]): Promise<number[]>;
+}
+
+export interface HybridChunk extends RetrievedChunk {
+    // BM25 relevance to the query that ranked the chunk best, scaled to 0-1
+    keywordScore: number;
+    // Reranker relevance to that query, if a scorer was used
+    rerankScore?: number;
+    hybridScore: number;
+    // Multiplier from the file's negative feedback, if down-weighted
+    penalty?: number;
+    // Queries (indexes into the searched queries) that retrieved the chunk
+    queries: number[];
+}
+
+export interface HybridSearchResult {
+    chunks: HybridChunk[];
+    // One entry per vector search: the searched queries, plus one for identifiers if any were found
+    searches: Array<{ query: string; count: number; searchQueries: Record<string, string> }>;
+    errors: Array<{ rag: string; message: string }>;
+    // Scorer that produced the semantic scores, or 'vector' when the AutoRAG scores were used
+    scorer: string;
+    // Files left out because of their negative feedback
+    excluded: string[];
+}
+
+// AutoRAG returns this many times maxResults candidates, so the local ranking (keyword scores or a
+// scorer) has something to choose from
+const CANDIDATE_FACTOR = 3;
+const MAX_CANDIDATES = 50;
+
+// Chunks of the same file sharing this share of their words are the same passage
+const OVERLAP_SIMILARITY = 0.8;
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Characters of each chunk sent to the reranker
+const RERANK_TEXT_LENGTH = 1000;
+
+function terms(text: string): string[] {
+    return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+}
+
+// Report numbers, codes and quoted phrases: terms vector search tends to blur
+export function identifierTerms(query: string): string[] {
+    const quoted = Array.from(query.matchAll(/"([^"]{3,})"/g)).map((match) => match[1]);
+    const codes = query.match(/\b(?:[A-Za-z]+[-/.]?\d[\w/.-]*|\d+[-/]\d[\w/.-]*|\d+[A-Za-z][\w/.-]*)\b/g) || [];
+    return Array.from(new Set([...quoted, ...codes].map((term) => term.trim()).filter((term) => term.length >= 3)));
+}
+
+// BM25 of each text for the query, computed over the texts themselves and scaled so the best is 1.
+// Texts containing every identifier of the query verbatim score 1.
+export function keywordScores(query: string, texts: string[]): number[] {
+    const queryTerms = Array.from(new Set(terms(query)));
+    const documents = texts.map(terms);
+    const averageLength = documents.reduce((sum, document) => sum + document.length, 0) / Math.max(documents.length, 1) || 1;
+    const documentFrequency = new Map<string, number>();
+    for (const document of documents) {
+        for (const term of new Set(document)) {
+            documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }
+    }
+
+    const raw = documents.map((document) => {
+        const frequency = new Map<string, number>();
+        for (const term of document) {
+            frequency.set(term, (frequency.get(term) || 0) + 1);
+        }
+        return queryTerms.reduce((score, term) => {
+            const count = frequency.get(term) || 0;
+            if (count === 0) {
+                return score;
+            }
+            const df = documentFrequency.get(term) || 0;
+            const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+            return score + idf * (count * (BM25_K1 + 1)) / (count + BM25_K1 * (1 - BM25_B + BM25_B * document.length / averageLength));
+        }, 0);
+    });
+
+    const best = Math.max(0, ...raw);
+    const identifiers = identifierTerms(query).map((identifier) => identifier.toLowerCase());
+    return raw.map((score, index) => {
+        if (identifiers.length > 0 && identifiers.every((identifier) => texts[index].toLowerCase().includes(identifier))) {
+            return 1;
+        }
+        return best > 0 ? score / best : 0;
+    });
+}
+
+// BM25 as a scorer, for setups without a reranking model
+export const keywordScorer: ChunkScorer = {
+    name: 'bm25',
+    score: async (query, texts) => keywordScores(query, texts),
+};
+
+// Workers AI cross-encoder reranker, e.g. @cf/baai/bge-reranker-base
+export function workersAiScorer(env: Env, model: string): ChunkScorer {
+    return {
+        name: model,
+        score: async (query, texts) => {
+            const response = await env.AI.run(model, {
+                query: query,
+                contexts: texts.map((text) => ({ text: text.substring(0, RERANK_TEXT_LENGTH) })),
+            });
+            const scores = new Array<number>(texts.length).fill(0);
+            for (const result of response.response || []) {
+                // Logits are squashed to 0-1
+                scores[result.id] = result.score >= 0 && result.score <= 1 ? result.score : 1 / (1 + Math.exp(-result.score));
+            }
+            return scores;
+        },
+    };
+}
+
+function wordOverlap(a: string, b: string): number {
+    const wordsA = new Set(terms(a));
+    const wordsB = new Set(terms(b));
+    let shared = 0;
+    for (const word of wordsA) {
+        if (wordsB.has(word)) {
+            shared++;
+        }
+    }
+    return shared / Math.max(1, Math.min(wordsA.size, wordsB.size));
+}
+
+// Merge chunks of the same file that are the same passage (overlapping windows, or one containing
+// the other), keeping the longer text, the best score and every query that found them
+export function mergeOverlapping(chunks: HybridChunk[]): HybridChunk[] {
+    const merged: HybridChunk[] = [];
+    for (const chunk of chunks) {
+        const duplicate = merged.find((existing) => existing.rag === chunk.rag
+            && existing.file_id === chunk.file_id
+            && (existing.text === chunk.text || wordOverlap(existing.text, chunk.text) >= OVERLAP_SIMILARITY));
+        if (!duplicate) {
+            merged.push({ ...chunk, queries: [...chunk.queries] });
+            continue;
+        }
+        if (chunk.text.length > duplicate.text.length) {
+            duplicate.text = chunk.text;
+        }
+        duplicate.score = Math.max(duplicate.score, chunk.score);
+        duplicate.fusedScore = Math.max(duplicate.fusedScore, chunk.fusedScore);
+        duplicate.queries = Array.from(new Set([...duplicate.queries, ...chunk.queries]));
+    }
+    return merged;
+}
+
+// Queries hybridSearch sends to each instance: with keyword scoring on (keywordWeight above 0), identifiers
+// get a search of their own, credited to the queries that mention them
+export function hybridSearchQueries(queries: string[], settings: RetrievalSettings): string[] {
+    if (settings.keywordWeight === 0) {
+        return queries;
+    }
+    const identifiers = Array.from(new Set(queries.flatMap(identifierTerms)));
+    return identifiers.length > 0 && !queries.includes(identifiers.join(' '))
+        ? [...queries, identifiers.join(' ')]
+        : queries;
+}
+
+// Search every query, merge overlapping chunks, rank the pool for each query and pick the best chunks
+// of each query in turn, so that every sub-question is represented among the maxResults kept.
+// penalties (by fileKey) scale the scores of files with negative feedback; 0 excludes the file.
+// Without keyword scoring or a scorer the AutoRAG ranking is kept, so no extra candidates are fetched.
+export async function hybridSearch(env: Env, ragNames: string[], queries: string[], settings: RetrievalSettings, scorer: ChunkScorer | null, penalties: Record<string, number> = {}): Promise<HybridSearchResult> {
+    const candidateSettings = settings.keywordWeight > 0 || scorer
+        ? { ...settings, maxResults: Math.min(MAX_CANDIDATES, settings.maxResults * CANDIDATE_FACTOR) }
+        : settings;
+
+    const searchQueries = hybridSearchQueries(queries, settings);
+    const identifierQueries = queries
+        .map((query, index) => identifierTerms(query).length > 0 ? index : -1)
+        .filter((index) => index >= 0);
+
+    const settled = await Promise.allSettled(searchQueries.map((query) => federatedSearch(env, ragNames, query, candidateSettings)));
+    const searches: HybridSearchResult['searches'] = [];
+    const errors: HybridSearchResult['errors'] = [];
+    let pool: HybridChunk[] = [];
+    settled.forEach((outcome, index) => {
+        if (outcome.status === 'rejected') {
+            errors.push({ rag: ragNames.join(', '), message: outcome.reason?.message || String(outcome.reason) });
+            return;
+        }
+        errors.push(...outcome.value.errors);
+        searches.push({ query: searchQueries[index], count: outcome.value.chunks.length, searchQueries: outcome.value.searchQueries });
+        const credited = index < queries.length ? [index] : identifierQueries;
+        pool.push(...outcome.value.chunks.map((chunk) => ({ ...chunk, keywordScore: 0, hybridScore: 0, queries: credited })));
+    });
+    if (searches.length === 0) {
+        throw new Error(errors.map((error) => `${error.rag}: ${error.message}`).join('; '));
+    }
+    pool = mergeOverlapping(pool);
+
+    const excluded = new Set<string>();
+    pool = pool.filter((chunk) => {
+        const penalty = penalties[fileKey(chunk)];
+        if (penalty === 0) {
+            excluded.add(chunk.filename);
+            return false;
+        }
+        if (penalty !== undefined) {
+            chunk.penalty = penalty;
+        }
+        return true;
+    });
+
+    // Rank the chunks each query retrieved
+    let scorerName = scorer?.name || 'vector';
+    const rankings: HybridChunk[][] = [];
+    for (const [index, query] of queries.entries()) {
+        const candidates = pool.filter((chunk) => chunk.queries.includes(index));
+        if (candidates.length === 0) {
+            rankings.push([]);
+            continue;
+        }
+        const texts = candidates.map((chunk) => chunk.text);
+        const keyword = keywordScores(query, texts);
+
+        let semantic: number[] | null = null;
+        if (scorer) {
+            try {
+                semantic = await scorer.score(query, texts);
+            } catch (error) {
+                console.error('[Agent] Reranking failed, using the vector scores:', error);
+                scorerName = 'vector';
+            }
+        }
+
+        const ranked = candidates.map((chunk, position) => {
+            const semanticScore = semantic ? semantic[position] : chunk.score;
+            const hybridScore = ((1 - settings.keywordWeight) * semanticScore + settings.keywordWeight * keyword[position]) * (chunk.penalty ?? 1);
+            if (hybridScore > chunk.hybridScore) {
+                chunk.hybridScore = hybridScore;
+                chunk.keywordScore = keyword[position];
+                if (semantic) {
+                    chunk.rerankScore = semantic[position];
+                }
+            }
+            return { chunk, hybridScore };
+        });
+        rankings.push(ranked.sort((a, b) => b.hybridScore - a.hybridScore).map(({ chunk }) => chunk));
+    }
+
+    // Take the next best chunk of each query in turn
+    const selected = new Set<HybridChunk>();
+    for (let rank = 0; selected.size < settings.maxResults && rankings.some((ranking) => rank < ranking.length); rank++) {
+        for (const ranking of rankings) {
+            if (rank < ranking.length && selected.size < settings.maxResults) {
+                selected.add(ranking[rank]);
+            }
+        }
+    }
+
+    return {
+        chunks: Array.from(selected).sort((a, b) => b.hybridScore - a.hybridScore),
+        searches,
+        errors,
+        scorer: scorerName,
+        excluded: Array.from(excluded),
+    };
+}
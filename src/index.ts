@@ -1,21 +1,35 @@
 import { AIChatAgent } from 'agents/ai-chat-agent';
-import { routeAgentRequest } from 'agents';
-import { google } from '@ai-sdk/google';
-import {streamText, generateText, generateObject, tool, stepCountIs} from 'ai';
-import { z } from 'zod';
-
-interface Env {
-    AI: any;
-    ASSETS: any;
-    BUCKET: R2Bucket;
-    GOOGLE_GENERATIVE_AI_API_KEY: string;
-    SearchAgent: DurableObjectNamespace;
-}
-
-interface AgentState {
-    totalSearches: number;
-    lastSearchTime: number;
-    selectedRag: string;
+import { routeAgentRequest, type Connection } from 'agents';
+import type { Citation } from './evidence';
+import type { SearchTrace, TraceStep } from './trace';
+import { runAgenticSearch, type SearchFile, type SearchRunResult } from './search-loop';
+import { handleSearchRequest } from './search-api';
+import { createModelRegistry, modelConfigSchema } from './models';
+import { outputFormatSchema, type OutputFormat } from './output-modes';
+import { addFacts, compactConversation, EMPTY_MEMORY, factsFromAnswer, memorySettings, type ConversationMemory } from './memory';
+import { DEFAULT_RETRIEVAL_SETTINGS, mergeRetrievalSettings } from './retrieval';
+import { negotiateVersion, parseClientMessage, parseOfferedVersions, SUPPORTED_PROTOCOL_VERSIONS, UNSUPPORTED_PROTOCOL_CLOSE_CODE, type ParsedClientMessage, type ServerMessage } from './protocol';
+import { getRoomRegistry, type RoomUpdate } from './room-registry';
+import { handleRoomsRequest } from './rooms-api';
+import { handleCacheRequest } from './cache-api';
+import { handleDocumentRequest } from './documents';
+import { authenticate, filterRags, grantDocuments, readAuthContext, resolveAccess, withAuthContext, type AccessScope } from './auth';
+import { admitRequest, ANONYMOUS_USER, recordUsage, runUsage, usageSettings } from './usage';
+import { handleUsageRequest } from './usage-api';
+import { handleSavedSearchesRequest } from './saved-searches-api';
+import { feedbackInputSchema, feedbackSettings, getFeedbackStore, type AnswerFeedback, type FeedbackInput } from './feedback';
+import { handleFeedbackRequest } from './feedback-api';
+import type { AgentState, Env } from './types';
+
+export { RoomRegistry } from './room-registry';
+export { AnswerCache } from './answer-cache-store';
+export { UsageMeter } from './usage-store';
+export { SavedSearchScheduler } from './saved-search-store';
+export { FeedbackStore } from './feedback-store';
+
+// Everything the agent sends to its clients follows the protocol
+function sendMessage(connection: any, message: ServerMessage) {
+    connection.send(JSON.stringify(message));
 }
 
 // Search Agent using AIChatAgent
@@ -24,395 +38,579 @@ export class SearchAgent extends AIChatAgent<Env, AgentState> {
         totalSearches: 0,
         lastSearchTime: 0,
         selectedRag: '',
+        selectedRags: [],
+        models: {},
+        retrievalSettings: DEFAULT_RETRIEVAL_SETTINGS,
     };
 
+    // The run in progress, with the controls clients can use on it
+    activeRun: { controller: AbortController, hints: string[] } | null = null;
+    // Runs are chained so that a message received during a run is answered after it
+    runQueue: Promise<void> = Promise.resolve();
+    pendingRuns = 0;
+
+    // Last state set by the agent itself, restored when a client sends one of its own
+    serverState: AgentState | null = null;
+
     // Override constructor to load persisted messages
     constructor(state: any, env: Env) {
         super(state, env);
         // Messages will be loaded in onConnect
     }
 
-    // Load messages from storage when client connects
-    async onConnect(connection: any) {
+    // Load messages from storage when client connects. Clients speaking the typed protocol negotiate its
+    // version with ?protocol= and may resume their history after ?lastMessageId=
+    async onConnect(connection: any, ctx: any) {
         console.log('[Agent] Client connected, loading persisted messages...');
+        this.serverState ??= this.state;
+        const url = new URL(ctx.request.url);
+
+        // Protocol version of the connection (0: client from before the handshake)
+        let protocol = 0;
+        if (url.searchParams.has('protocol')) {
+            const version = negotiateVersion(parseOfferedVersions(url.searchParams.get('protocol')));
+            if (version === null) {
+                sendMessage(connection, {
+                    type: 'error',
+                    error: `Unsupported protocol version, this server speaks ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`,
+                    code: 'unsupported-protocol',
+                    supportedVersions: SUPPORTED_PROTOCOL_VERSIONS
+                });
+                connection.close(UNSUPPORTED_PROTOCOL_CLOSE_CODE, 'Unsupported protocol version');
+                return;
+            }
+            protocol = version;
+        }
+
+        // Identity and RAG allowlist of the user, as verified by the Worker (null rags: all allowed)
+        const auth = readAuthContext(ctx.request);
+        connection.setState({ userId: auth?.userId, rags: auth?.rags ?? null, protocol: protocol });
+        if (protocol > 0) {
+            sendMessage(connection, { type: 'welcome', version: protocol, supportedVersions: SUPPORTED_PROTOCOL_VERSIONS, roomId: this.name });
+        }
 
         // Load messages from Durable Object storage
-        const storedMessages = await this.ctx.storage.get('messages');
-        if (storedMessages) {
-            this.messages = storedMessages as any[];
+        const storedMessages = await this.loadStoredMessages();
+        if (storedMessages.length > 0) {
+            this.messages = storedMessages;
             console.log('[Agent] Loaded', this.messages.length, 'persisted messages');
-            
-            // Send message history to the client
-            if (this.messages.length > 0) {
-                connection.send(JSON.stringify({
-                    type: 'message-history',
-                    messages: this.messages
-                }));
-                console.log('[Agent] Sent message history to client');
-            }
         } else {
             console.log('[Agent] No persisted messages found, starting fresh');
         }
+
+        // Send message history to the client, including messages compacted into memory
+        const history = [...this.archivedMessages(), ...this.messages];
+        if (protocol > 0) {
+            // Only what the client missed, if it knows the last message it received
+            const lastMessageId = url.searchParams.get('lastMessageId');
+            const index = lastMessageId ? history.findIndex((msg: any) => msg.id === lastMessageId) : -1;
+            sendMessage(connection, index >= 0
+                ? { type: 'message-history', messages: history.slice(index + 1), resumed: true }
+                : { type: 'message-history', messages: history });
+            console.log('[Agent] Sent message history to client', index >= 0 ? `(resumed after ${lastMessageId})` : '');
+        } else if (history.length > 0) {
+            sendMessage(connection, { type: 'message-history', messages: history });
+            console.log('[Agent] Sent message history to client');
+        }
     }
 
     // Save messages to storage
     async persistMessages() {
         await this.ctx.storage.put('messages', this.messages);
         console.log('[Agent] Persisted', this.messages.length, 'messages');
+        await this.updateRoomIndex();
+    }
+
+    // Report this room to the room registry so it can be listed
+    async updateRoomIndex(indexUpdate: Partial<RoomUpdate> = {}) {
+        const firstUserMessage = (this.archivedMessages(1)[0] || this.messages.find((msg: any) => msg.role === 'user')) as any;
+        const title = firstUserMessage ? String(firstUserMessage.content).substring(0, 80) : undefined;
+        try {
+            await getRoomRegistry(this.env).upsertRoom(this.name, {
+                title: title,
+                messageCount: this.archivedMessageCount() + this.messages.length,
+                rags: this.roomRags(),
+                ...indexUpdate,
+            });
+        } catch (error) {
+            console.error('[Agent] Error updating room index:', error);
+        }
+    }
+
+    // Messages as persisted, even if no client has connected since the agent woke up.
+    // Messages stored before they had IDs get one, persisted so that it stays the same.
+    async loadStoredMessages(): Promise<any[]> {
+        const storedMessages = await this.ctx.storage.get('messages');
+        const messages = Array.isArray(storedMessages) ? storedMessages : [];
+        if (messages.some((msg: any) => !msg.id)) {
+            const withIds = messages.map((msg: any) => msg.id ? msg : { ...msg, id: crypto.randomUUID() });
+            await this.ctx.storage.put('messages', withIds);
+            return withIds;
+        }
+        return messages;
+    }
+
+    // RPC: full conversation (compacted messages included), used by export and fork
+    async getTranscript() {
+        return {
+            id: this.name,
+            messages: [...this.archivedMessages(), ...await this.loadStoredMessages()],
+            rags: this.roomRags(),
+            retrievalSettings: mergeRetrievalSettings(this.state.retrievalSettings),
+            models: this.state.models || {},
+            memory: await this.loadMemory(),
+        };
+    }
+
+    // RPC: seed this (new) room with messages and settings copied from another room, with the traces of
+    // the copied answers. All messages start out live; they are compacted again once over the token budget.
+    async importConversation(messages: any[], settings: Pick<AgentState, 'selectedRags' | 'retrievalSettings' | 'models'>, indexUpdate: Partial<RoomUpdate> = {}, memory?: ConversationMemory, traces: Record<string, SearchTrace> = {}) {
+        this.setState({
+            ...this.state,
+            selectedRag: settings.selectedRags[0] || '',
+            selectedRags: settings.selectedRags,
+            retrievalSettings: settings.retrievalSettings,
+            models: settings.models,
+        });
+        this.messages = messages;
+        await this.ctx.storage.put('messages', this.messages);
+        if (memory) {
+            await this.ctx.storage.put('memory', memory);
+        }
+        for (const [messageId, trace] of Object.entries(traces)) {
+            this.saveTrace(messageId, trace);
+        }
+        await this.updateRoomIndex(indexUpdate);
+    }
+
+    // RPC: drop the conversation and disconnect its clients
+    async deleteConversation() {
+        this.activeRun?.controller.abort();
+        for (const connection of this.getConnections()) {
+            connection.close(1000, 'Room deleted');
+        }
+        this.messages = [];
+        await this.ctx.storage.delete(['messages', 'memory']);
+        this.ensureTraceTable();
+        this.sql`DELETE FROM traces`;
+        this.ensureArchiveTable();
+        this.sql`DELETE FROM archived_messages`;
+        this.setState(this.initialState);
+        console.log('[Agent] Conversation deleted');
     }
 
     async onMessage(connection: any, message: string | ArrayBuffer) {
         console.log('[Agent] Received message:', typeof message === 'string' ? message : 'binary');
+        if (typeof message !== 'string') {
+            return;
+        }
+
+        const parsed = parseClientMessage(message, connection.state?.protocol || 0);
+        if (parsed.error) {
+            sendMessage(connection, { type: 'error', error: parsed.error, code: 'invalid-message' });
+            return;
+        }
 
         try {
-            if (typeof message === 'string') {
-                const data = JSON.parse(message);
+            for (const clientMessage of parsed.messages) {
+                await this.handleClientMessage(connection, clientMessage);
+            }
+        } catch (error: any) {
+            console.error('[Agent] Error handling message:', error);
+            sendMessage(connection, { type: 'error', error: error.message });
+        }
+    }
 
-                // Update selected RAG if provided
-                if (data.selectedRag && typeof data.selectedRag === 'string') {
+    async handleClientMessage(connection: any, data: ParsedClientMessage) {
+        switch (data.type) {
+            case 'cancel': {
+                if (!this.activeRun) {
+                    throw new Error('No search is running');
+                }
+                console.log('[Agent] Cancelling the current run');
+                this.activeRun.controller.abort();
+                return;
+            }
+
+            case 'steer': {
+                if (!this.activeRun) {
+                    throw new Error('No search is running');
+                }
+                this.activeRun.hints.push(data.hint);
+                sendMessage(connection, { type: 'steer-received', hint: data.hint });
+                return;
+            }
+
+            case 'feedback': {
+                const input = feedbackInputSchema.safeParse({ rating: data.rating, comment: data.comment, wrongSources: data.wrongSources });
+                if (!input.success) {
+                    throw new Error(`Invalid feedback: ${input.error.issues.map((issue) => `${issue.path.join('.') || 'feedback'}: ${issue.message}`).join(', ')}`);
+                }
+                const feedback = await this.submitFeedback(data.messageId, connection.state?.userId || ANONYMOUS_USER, input.data);
+                sendMessage(connection, {
+                    type: 'feedback-saved',
+                    messageId: data.messageId,
+                    feedback: { rating: feedback.rating, comment: feedback.comment, wrongSources: feedback.wrongSources }
+                });
+                return;
+            }
+
+            case 'settings': {
+                if (data.selectedRags) {
+                    const denied = data.selectedRags.filter((rag) => filterRags([rag], connection.state?.rags).length === 0);
+                    if (denied.length > 0) {
+                        throw new Error(`Not allowed to search: ${denied.join(', ')}`);
+                    }
+                    this.setState({
+                        ...this.state,
+                        selectedRag: data.selectedRags[0],
+                        selectedRags: data.selectedRags
+                    });
+                    console.log('[Agent] RAGs updated to:', data.selectedRags);
+                }
+
+                // Per-room model overrides
+                if (data.models !== undefined) {
+                    const models = modelConfigSchema.safeParse(data.models);
+                    if (!models.success) {
+                        throw new Error(`Invalid models: ${models.error.issues.map((issue) => issue.message).join(', ')}`);
+                    }
                     this.setState({
                         ...this.state,
-                        selectedRag: data.selectedRag
+                        models: models.data
                     });
-                    console.log('[Agent] RAG updated to:', data.selectedRag);
+                    console.log('[Agent] Models updated to:', models.data);
+                }
+
+                // Partial updates are merged
+                if (data.retrievalSettings !== undefined) {
+                    this.setState({
+                        ...this.state,
+                        retrievalSettings: mergeRetrievalSettings(this.state.retrievalSettings, data.retrievalSettings)
+                    });
+                    console.log('[Agent] Retrieval settings updated to:', this.state.retrievalSettings);
+                }
+                return;
+            }
+
+            case 'chat': {
+                // How this question should be answered: Markdown, or a table, timeline or JSON object
+                const output = outputFormatSchema.safeParse({ outputMode: data.outputMode, outputSchema: data.outputSchema });
+                if (!output.success) {
+                    throw new Error(`Invalid output format: ${output.error.issues.map((issue) => issue.message).join(', ')}`);
+                }
+
+                // Per-user rate limit and daily token quotas
+                const quota = await admitRequest(this.env, connection.state?.userId || ANONYMOUS_USER, filterRags(this.roomRags(), connection.state?.rags));
+                if (!quota.allowed) {
+                    sendMessage(connection, { type: 'error', error: quota.error, code: 'quota-exceeded', retryAfter: quota.retryAfterSeconds });
+                    return;
+                }
+
+                const receivedAt = Date.now();
+                if (this.pendingRuns > 0) {
+                    sendMessage(connection, { type: 'run-queued', position: this.pendingRuns });
                 }
 
-                // Add messages to the agent's history
-                if (data.messages && Array.isArray(data.messages)) {
+                await this.enqueueRun(async () => {
                     // Ensure we have the latest persisted messages before adding new ones
-                    const storedMessages = await this.ctx.storage.get('messages');
-                    if (storedMessages && Array.isArray(storedMessages)) {
-                        this.messages = storedMessages as any[];
+                    const storedMessages = await this.loadStoredMessages();
+                    if (storedMessages.length > 0) {
+                        this.messages = storedMessages;
                         console.log('[Agent] Reloaded', this.messages.length, 'persisted messages before processing');
                     }
 
-                    this.messages = [...this.messages, ...data.messages];
+                    // Every message gets an ID (the client's own, if unused) and who sent it
+                    const takenIds = new Set(this.messages.map((msg: any) => msg.id));
+                    this.messages = [...this.messages, {
+                        id: data.id && !takenIds.has(data.id) ? data.id : crypto.randomUUID(),
+                        role: 'user',
+                        content: data.content,
+                        ...(connection.state?.userId ? { userId: connection.state.userId } : {}),
+                        createdAt: receivedAt
+                    } as any];
                     console.log('[Agent] Messages added, total:', this.messages.length);
 
                     // Persist messages before processing
                     await this.persistMessages();
 
                     // Trigger onChatMessage to generate response and stream it
-                    await this.processAndStreamResponse(connection);
-                }
+                    await this.processAndStreamResponse(connection, output.data);
+                });
+                return;
             }
-        } catch (error: any) {
-            console.error('[Agent] Error handling message:', error);
-            connection.send(JSON.stringify({ type: 'error', error: error.message }));
         }
     }
 
-    async processAndStreamResponse(connection: any) {
+    // Run tasks one at a time, in the order they were received
+    async enqueueRun(task: () => Promise<void>) {
+        this.pendingRuns++;
+        const run = this.runQueue.then(task).finally(() => {
+            this.pendingRuns--;
+        });
+        this.runQueue = run.catch(() => {});
+        await run;
+    }
+
+    async processAndStreamResponse(connection: any, output?: OutputFormat) {
         console.log('[Agent] Processing chat message:', this.messages.length, 'messages');
 
-        const usedFiles = await this.streamWithMultiStepTools(connection);
+        const { files: usedFiles, citations, messageId, interrupted } = await this.streamWithMultiStepTools(connection, output);
 
         // Persist messages after response generation
         await this.persistMessages();
 
+        // Send the mapping from [n] markers in the answer to the chunks they cite
+        if (citations.length > 0) {
+            sendMessage(connection, {
+                type: 'citations',
+                citations: citations
+            });
+        }
+
         // Send file metadata for download links
         if (usedFiles.length > 0) {
-            connection.send(JSON.stringify({
+            sendMessage(connection, {
                 type: 'files',
                 files: usedFiles
-            }));
+            });
         }
 
-        // Send final finish message
-        connection.send(JSON.stringify({ type: 'finish' }));
-    }
-
-    async streamWithMultiStepTools(connection: any): Promise<Array<{filename: string, file_id: string}>> {
-        const allFiles = new Map<string, {filename: string, file_id: string}>();
-        const accumulatedKnowledge: string[] = [];
-        const maxIterations = 5;
-        let iteration = 0;
-
-        // Get the user's original query from the last message
-        const userQuery = this.messages[this.messages.length - 1].content as string;
-        let currentSearchQuery = userQuery;
-
-        // Query rewriting: If there are previous user messages, consolidate them into a single query
-        const previousUserMessages = this.messages
-            .slice(0, -1) // Exclude the current message
-            .filter((msg: any) => msg.role === 'user')
-            .map((msg: any) => msg.content as string);
-
-        if (previousUserMessages.length > 0) {
-            console.log('[Agent] Found', previousUserMessages.length, 'previous user messages, rewriting query...');
-            
-            try {
-                const rewriteResult = await generateText({
-                    model: google('gemini-2.5-flash'),
-                    prompt: `You are a query rewriting assistant. Your task is to combine multiple related user queries into a single, comprehensive query that captures the user's current intent.
-
-Previous user queries (in chronological order):
-${previousUserMessages.map((q, i) => `${i + 1}. ${q}`).join('\n')}
-
-Current user query:
-${userQuery}
-
-Task: Rewrite this into a single, clear, and comprehensive query that represents what the user is actually asking for now, considering the conversation context. The rewritten query should be self-contained and capture the full intent.
+        // Send final finish message, with the ID of the answer to fetch its trace later
+        sendMessage(connection, { type: 'finish', ...(messageId ? { messageId } : {}), ...(interrupted ? { interrupted } : {}) });
 
-Important: Focus on the user's CURRENT intent. If the current query builds upon or modifies previous queries, make sure the rewritten query reflects the current state of the question, not the history.
+        // Keep the live history within its token budget
+        await this.compactHistory(connection.state?.userId || ANONYMOUS_USER);
+    }
 
-Provide ONLY the rewritten query, nothing else.`,
-                });
+    async streamWithMultiStepTools(connection: any, output?: OutputFormat): Promise<{files: SearchFile[], citations: Citation[], messageId?: string, interrupted?: boolean}> {
+        const run = { controller: new AbortController(), hints: [] as string[] };
+        this.activeRun = run;
+        const memory = memorySettings(this.env).enabled ? await this.loadMemory() : undefined;
 
-                currentSearchQuery = rewriteResult.text.trim();
-                console.log('[Agent] Query rewritten from:', userQuery);
-                console.log('[Agent] To:', currentSearchQuery);
-
-                // Notify the client about the query rewrite
-                connection.send(JSON.stringify({
-                    type: 'query-rewrite',
-                    original: userQuery,
-                    rewritten: currentSearchQuery
-                }));
-            } catch (error) {
-                console.error('[Agent] Error rewriting query, using original:', error);
-                // Fall back to original query on error
-            }
+        const ragNames = filterRags(this.roomRags(), connection.state?.rags);
+        // Steps of the run so far, metered even when the run fails
+        const steps: TraceStep[] = [];
+        let result: SearchRunResult;
+        try {
+            result = await runAgenticSearch({
+                env: this.env,
+                ragNames: ragNames,
+                messages: this.messages,
+                models: this.state.models,
+                retrieval: mergeRetrievalSettings(this.state.retrievalSettings),
+                emit: (event) => {
+                    if (event.type === 'trace-step') {
+                        steps.push(event.step);
+                    }
+                    sendMessage(connection, event);
+                },
+                onSearch: () => {
+                    // Update state
+                    this.setState({
+                        ...this.state,
+                        totalSearches: this.state.totalSearches + 1,
+                        lastSearchTime: Date.now(),
+                    });
+                },
+                abortSignal: run.controller.signal,
+                // Hints sent since the last iteration
+                takeSteeringHints: () => run.hints.splice(0),
+                memory: memory,
+                output: output,
+                maxIterations: usageSettings(this.env).limits.maxIterations,
+            });
+        } finally {
+            this.activeRun = null;
+            await recordUsage(this.env, runUsage(steps, connection.state?.userId || ANONYMOUS_USER, this.name, ragNames));
         }
 
-        console.log('[Agent] Starting agentic loop with search query:', currentSearchQuery);
+        // The user may now download the documents of this answer
+        await grantDocuments(this.env, connection.state?.userId, result.files.map((file) => file.filename));
 
-        // Define search function (not a tool anymore, called directly)
-        const performSearch = async (query: string) => {
-            console.log(`[Agent] Searching for: "${query}"`);
+        // Add assistant's response to message history
+        let messageId: string | undefined;
+        if (result.answer.trim() || result.interrupted) {
+            messageId = crypto.randomUUID();
+            this.saveTrace(messageId, result.trace);
+            this.messages.push({
+                id: messageId,
+                role: 'assistant',
+                content: result.answer,
+                citations: result.citations,
+                files: result.files,
+                // RAG instances searched for the answer
+                rags: ragNames,
+                ...(result.rewrittenQuery !== result.originalQuery ? { rewrittenQuery: result.rewrittenQuery } : {}),
+                ...(result.cached ? { cached: result.cached } : {}),
+                ...(result.structured ? { structured: result.structured } : {}),
+                ...(result.interrupted ? { interrupted: true } : {}),
+                createdAt: Date.now()
+            } as any);
+            console.log('[Agent] Added assistant response to history', result.interrupted ? '(interrupted)' : '');
 
-            // Check if RAG is selected
-            if (!this.state.selectedRag) {
-                const errorMsg = 'No RAG instance selected. Please select a RAG from the dropdown.';
-                console.error('[Agent]', errorMsg);
-                throw new Error(errorMsg);
+            // Remember the cited claims of a complete answer as established facts
+            if (memory && !result.interrupted) {
+                const settings = memorySettings(this.env);
+                await this.ctx.storage.put('memory', addFacts(memory, factsFromAnswer(result.answer, result.citations, messageId), settings.maxFacts));
             }
+        }
 
-            // Notify the client that a search is starting
-            connection.send(JSON.stringify({
-                type: 'search-start',
-                query: query
-            }));
-
-            // Update state
-            this.setState({
-                ...this.state,
-                totalSearches: this.state.totalSearches + 1,
-                lastSearchTime: Date.now(),
-            });
-
-            try {
-                const searchResults = await this.env.AI.autorag(this.state.selectedRag).search({
-                    query: query,
-                    rewrite_query: false,
-                    max_num_results: 10,
-                    ranking_options: {
-                        score_threshold: 0.3
-                    },
-                    reranking: {
-                        enabled: false,
-                        model: '@cf/baai/bge-reranker-base'
-                    }
-                });
-
-                if (!searchResults.data || searchResults.data.length === 0) {
-                    return {
-                        success: true,
-                        found: false,
-                        message: 'No relevant documents found for this query.',
-                        count: 0,
-                        results: []
-                    };
-                }
-
-                const formattedResults = searchResults.data.map((result: any, index: number) => ({
-                    rank: index + 1,
-                    filename: result.filename || 'Unknown',
-                    score: Math.round(result.score * 100) / 100,
-                    content: result.content?.map((c: any) => c.text).join(' ').substring(0, 400),
-                    file_id: result.file_id
-                }));
-
-                // Collect file metadata
-                for (const result of formattedResults) {
-                    if (result.filename) {
-                        allFiles.set(result.filename, {
-                            filename: result.filename,
-                            file_id: result.file_id
-                        });
-                    }
-                }
-
-                const toolResult = {
-                    success: true,
-                    found: true,
-                    count: formattedResults.length,
-                    search_query: searchResults.search_query || query,
-                    results: formattedResults
-                };
-                console.log('[Agent] Returning results:', toolResult.count, 'documents found');
-                return toolResult;
-            } catch (error: any) {
-                console.error('[Agent] Search error:', error);
-                return {
-                    success: false,
-                    error: 'Failed to search the database',
-                    message: error.message,
-                    results: []
-                };
-            }
+        return {
+            files: result.files,
+            citations: result.citations,
+            messageId: messageId,
+            interrupted: result.interrupted
         };
+    }
 
-        // Define search as a tool for the LLM
-        const searchTool = tool({
-            description: 'Search through a document database. Use this tool to find relevant information from the indexed documents.',
-            inputSchema: z.object({
-                query: z.string().describe('The search query to find relevant documents'),
-            }),
-            execute: async ({ query }) => {
-                return await performSearch(query);
-            },
-        });
-
-        // Agentic loop
-        while (true) {
-            iteration++;
-            console.log(`[Agent] Iteration ${iteration}/${maxIterations}`);
-
-            // Step 1 & 2: Let the LLM search and generate knowledge entries using tools
-            console.log('[Agent] Generating knowledge from search results...');
-            const knowledgeGeneration = await generateText({
-                model: google('gemini-2.5-flash'),
-                tools: {
-                    searchDocuments: searchTool,
-                },
-                stopWhen: stepCountIs(5),
-                prompt: `You are gathering information to answer a user's query.
-
-User Original Query: ${userQuery}
-${userQuery !== currentSearchQuery ? `Rewritten Search Query: ${currentSearchQuery}` : ''}
-
-${iteration === 1 ? `Current Search Query: ${currentSearchQuery}` : `Next Search Query: ${currentSearchQuery}`}
+    async loadMemory(): Promise<ConversationMemory> {
+        return (await this.ctx.storage.get<ConversationMemory>('memory')) || EMPTY_MEMORY;
+    }
 
-${accumulatedKnowledge.length > 0 ? `Previously Accumulated Knowledge:
-${accumulatedKnowledge.join('\n\n')}
+    // RPC: summary and established facts of this conversation
+    async getMemory(): Promise<ConversationMemory> {
+        return await this.loadMemory();
+    }
 
-` : ''}Task:
-1. Use the searchDocuments tool to search documents with any query related to the user question
-2. Analyze the search results
-3. Continue using the searchDocuments tool with different queries to get more knowledge (max 3 times)
-3. Extract 3-5 key knowledge entries that are relevant to answering the user's query
-4. Format each knowledge entry as a clear, concise bullet point with document filename for reference
+    // RPC: forget the summary and facts; compacted messages stay archived for export
+    async clearMemory() {
+        await this.ctx.storage.delete('memory');
+        console.log('[Agent] Memory cleared');
+    }
 
-Provide your knowledge extraction.`,
-            });
+    // Fold the oldest messages into the memory summary once the live history is over budget,
+    // moving them to the archive table so exports and the UI still show them.
+    // The summarizer's tokens count towards the usage of the user whose question triggered it.
+    async compactHistory(userId: string) {
+        const settings = memorySettings(this.env);
+        if (!settings.enabled) {
+            return;
+        }
 
-            const newKnowledge = knowledgeGeneration.text;
-            if (newKnowledge.trim()) {
-                accumulatedKnowledge.push(newKnowledge);
-                console.log('[Agent] Knowledge extracted:', newKnowledge.substring(0, 200) + '...');
-            } else {
-                console.log('[Agent] No knowledge extracted, breaking loop');
-                break;
+        try {
+            const model = createModelRegistry(this.env, this.state.models)('summarizer');
+            const result = await compactConversation(model, await this.loadMemory(), this.messages, settings);
+            if (!result) {
+                return;
             }
 
-            // Step 3: Evaluate if we have enough knowledge (structured output)
-            console.log('[Agent] Evaluating knowledge sufficiency...');
-            const decision = await generateObject({
-                model: google('gemini-2.5-flash'),
-                schema: z.object({
-                    isKnowledgeEnough: z.boolean().describe('Whether the accumulated knowledge is sufficient to fully answer the user query'),
-                    nextSearchQuery: z.string().optional().describe('If more information is needed, provide the next search query to explore'),
-                }),
-                prompt: `You are evaluating whether accumulated knowledge is sufficient to answer a user query.
-
-User Query: ${userQuery}
+            this.ensureArchiveTable();
+            for (const message of result.compacted) {
+                this.sql`INSERT INTO archived_messages (message) VALUES (${JSON.stringify(message)})`;
+            }
+            this.messages = result.kept;
+            await this.ctx.storage.put('memory', result.memory);
+            await this.persistMessages();
+            await recordUsage(this.env, { userId, room: this.name, rags: [], requests: 0, iterations: 0, usage: result.usage, searchesByRag: {} });
+            console.log('[Agent] Compacted', result.compacted.length, 'messages into memory,', result.kept.length, 'kept,', result.usage.totalTokens, 'tokens');
+        } catch (error) {
+            console.error('[Agent] Error compacting history:', error);
+        }
+    }
 
-Accumulated Knowledge (${iteration} search${iteration > 1 ? 'es' : ''}):
-${accumulatedKnowledge.join('\n\n')}
+    ensureArchiveTable() {
+        this.sql`CREATE TABLE IF NOT EXISTS archived_messages (
+            seq INTEGER PRIMARY KEY AUTOINCREMENT,
+            message TEXT NOT NULL
+        )`;
+    }
 
-Task: Determine if this knowledge is sufficient to provide a comprehensive answer. If not, suggest what additional information to search for.
+    // Messages compacted out of the live history, oldest first. Those archived before messages had IDs
+    // are identified by their archive position.
+    archivedMessages(limit: number = -1): any[] {
+        this.ensureArchiveTable();
+        return this.sql<{ seq: number, message: string }>`SELECT seq, message FROM archived_messages ORDER BY seq LIMIT ${limit}`
+            .map((row) => ({ id: `archived-${row.seq}`, ...JSON.parse(row.message) }));
+    }
 
-Consider:
-- Is the query fully addressed?
-- Are there gaps or missing details?
-- Would additional context help?
+    archivedMessageCount(): number {
+        this.ensureArchiveTable();
+        return this.sql<{ count: number }>`SELECT COUNT(*) AS count FROM archived_messages`[0].count;
+    }
 
-Provide your evaluation.`,
-            });
+    ensureTraceTable() {
+        this.sql`CREATE TABLE IF NOT EXISTS traces (
+            message_id TEXT PRIMARY KEY,
+            created_at INTEGER NOT NULL,
+            trace TEXT NOT NULL
+        )`;
+    }
 
-            console.log('[Agent] Decision:', decision.object);
+    // Keep the reasoning trace of an answer in the agent's SQLite storage
+    saveTrace(messageId: string, trace: SearchTrace) {
+        this.ensureTraceTable();
+        this.sql`INSERT OR REPLACE INTO traces (message_id, created_at, trace)
+            VALUES (${messageId}, ${Date.now()}, ${JSON.stringify(trace)})`;
+    }
 
-            // Step 4: Check stopping conditions
-            if (decision.object.isKnowledgeEnough || iteration >= maxIterations) {
-                console.log('[Agent] Loop complete. Sufficient knowledge:', decision.object.isKnowledgeEnough, 'Max iterations:', iteration >= maxIterations);
-                break;
-            }
+    // RPC: reasoning trace of an assistant message
+    async getTrace(messageId: string): Promise<SearchTrace | null> {
+        this.ensureTraceTable();
+        const rows = this.sql<{ trace: string }>`SELECT trace FROM traces WHERE message_id = ${messageId}`;
+        return rows.length > 0 ? JSON.parse(rows[0].trace) : null;
+    }
 
-            // Continue with next search query
-            if (decision.object.nextSearchQuery) {
-                currentSearchQuery = decision.object.nextSearchQuery;
-                console.log('[Agent] Continuing with next query:', currentSearchQuery);
-            } else {
-                console.log('[Agent] No next query provided, breaking loop');
-                break;
+    // RPC: reasoning traces of some messages (those that have one), by message ID
+    async getTraces(messageIds: string[]): Promise<Record<string, SearchTrace>> {
+        const traces: Record<string, SearchTrace> = {};
+        for (const messageId of messageIds) {
+            const trace = await this.getTrace(messageId);
+            if (trace) {
+                traces[messageId] = trace;
             }
         }
+        return traces;
+    }
 
-        // Final step: Stream comprehensive answer using all accumulated knowledge
-        console.log('[Agent] Streaming final answer with accumulated knowledge...');
-        const finalResult = streamText({
-            model: google('gemini-2.5-pro'),
-            prompt: `You are answering a user's question using accumulated knowledge from documents.
-
-User Query: ${userQuery}
-
-Accumulated Knowledge from ${iteration} search${iteration > 1 ? 'es' : ''}:
-${accumulatedKnowledge.join('\n\n')}
+    // RPC: record feedback on an answer of this room, with the question, searches and files it came from.
+    // The latest feedback is also kept on the message, so that the history shows it.
+    async submitFeedback(messageId: string, userId: string, input: FeedbackInput): Promise<AnswerFeedback> {
+        if (!feedbackSettings(this.env).enabled) {
+            throw new Error('Feedback is not configured');
+        }
 
-Task: Provide a comprehensive, well-structured answer to the user's query based on the accumulated knowledge.
+        const liveMessages = await this.loadStoredMessages();
+        const messages = [...this.archivedMessages(), ...liveMessages];
+        const index = messages.findIndex((msg: any) => msg.id === messageId);
+        const message = messages[index];
+        if (!message || message.role !== 'assistant') {
+            throw new Error('Answer not found');
+        }
 
-IMPORTANT: Do NOT reference, cite, or mention any document filenames in your response. Just provide the information directly without attribution to specific files. Download links will be automatically provided to the user separately.
+        const question = messages.slice(0, index).reverse().find((msg: any) => msg.role === 'user');
+        const trace = await this.getTrace(messageId);
+        const searchQueries = (trace?.steps || []).flatMap((step) => step.kind === 'search' ? step.subQueries || [step.query] : []);
+        const citedFiles = new Map<string, SearchFile>();
+        for (const citation of (message.citations || []) as Citation[]) {
+            citedFiles.set(`${citation.rag}:${citation.file_id || citation.filename}`, { filename: citation.filename, file_id: citation.file_id, rag: citation.rag });
+        }
 
-Be clear, accurate, and thorough in your response.`,
+        const feedback = await getFeedbackStore(this.env).submit(this.name, messageId, userId, input, {
+            question: question ? String(question.content) : '',
+            ...(message.rewrittenQuery ? { rewrittenQuery: message.rewrittenQuery } : {}),
+            answer: String(message.content),
+            searchQueries: Array.from(new Set(searchQueries)),
+            files: message.files || [],
+            citedFiles: Array.from(citedFiles.values())
         });
 
-        // Collect the complete response text
-        let completeResponse = '';
-
-        // Stream the final response to the client
-        for await (const part of finalResult.fullStream) {
-            switch (part.type) {
-                case 'text-delta': {
-                    completeResponse += part.text;
-                    connection.send(JSON.stringify({
-                        type: 'text-delta',
-                        textDelta: part.text
-                    }));
-                    break;
-                }
-                case 'error': {
-                    console.error('[Agent] Stream error:', part.error);
-                    connection.send(JSON.stringify({
-                        type: 'error',
-                        error: part.error
-                    }));
-                    break;
-                }
-            }
+        const live = liveMessages.find((msg: any) => msg.id === messageId);
+        if (live) {
+            live.feedback = { rating: feedback.rating, comment: feedback.comment, wrongSources: feedback.wrongSources };
+            this.messages = liveMessages;
+            await this.ctx.storage.put('messages', this.messages);
         }
+        console.log('[Agent] Feedback on', messageId, 'from', userId, ':', feedback.rating, feedback.wrongSources.length, 'wrong sources');
+        return feedback;
+    }
 
-        // Add assistant's response to message history
-        if (completeResponse.trim()) {
-            this.messages.push({
-                role: 'assistant',
-                content: completeResponse
-            } as any);
-            console.log('[Agent] Added assistant response to history');
+    // RAG instances for this room; rooms created before multi-RAG only have selectedRag
+    roomRags(): string[] {
+        if (this.state.selectedRags?.length > 0) {
+            return this.state.selectedRags;
         }
-
-        console.log('[Agent] Agentic loop complete. Total files:', allFiles.size);
-        return Array.from(allFiles.values());
+        return this.state.selectedRag ? [this.state.selectedRag] : [];
     }
 
     async onChatMessage(onFinish) {
@@ -421,8 +619,19 @@ Be clear, accurate, and thorough in your response.`,
         return undefined;
     }
 
-    onStateUpdate(state: AgentState) {
-        console.log('[Agent] State updated:', state);
+    // The agents SDK stores any cf_agent_state frame a client sends as the new state. Room settings may only
+    // change through `settings` messages, which are validated and access-checked, so a client's state is
+    // replaced by the agent's own right away, and the client is told why. The RAGs a run may search are
+    // still filtered by the allowlist of the connection asking, whatever the room's selection.
+    onStateUpdate(state: AgentState, source: Connection | 'server') {
+        if (source === 'server') {
+            this.serverState = state;
+            console.log('[Agent] State updated:', state);
+            return;
+        }
+        console.log('[Agent] Refused a state update from connection', source.id);
+        this.setState(this.serverState || this.initialState);
+        sendMessage(source, { type: 'error', error: 'Room state can only be changed with settings messages', code: 'invalid-message' });
     }
 }
 
@@ -431,10 +640,26 @@ export default {
     async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
         const url = new URL(request.url);
 
-        // List available RAG instances endpoint
+        // Everything but the static UI requires a user when auth is enabled
+        let access: AccessScope = resolveAccess(null, env);
+        if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/agents/') || url.pathname.startsWith('/documents/')) {
+            const { user, error } = await authenticate(request, env);
+            if (error) {
+                return error;
+            }
+            try {
+                access = resolveAccess(user, env);
+            } catch (error: any) {
+                console.error('[Worker] Invalid ACCESS_POLICY:', error);
+                return Response.json({ success: false, error: 'Access policy is misconfigured' }, { status: 500 });
+            }
+        }
+
+        // List available RAG instances endpoint (only those the user may search)
         if (url.pathname === '/api/rags' && request.method === 'GET') {
             try {
-                const rags = await env.AI.autorag().list();
+                const rags = (await env.AI.autorag().list())
+                    .filter((rag: any) => filterRags([rag.id], access.rags).length > 0);
                 return Response.json({ success: true, rags });
             } catch (error: any) {
                 console.error('[Worker] Error listing RAGs:', error);
@@ -442,48 +667,68 @@ export default {
             }
         }
 
-        // Route to agents under /agents/* path using the built-in router
-        if (url.pathname.startsWith('/agents/')) {
-            return await routeAgentRequest(request, env) ||
-                Response.json({ error: 'Agent not found' }, { status: 404 });
+        // Stateless search endpoint (JSON, or SSE with Accept: text/event-stream)
+        if (url.pathname === '/api/search' && request.method === 'POST') {
+            return await handleSearchRequest(request, env, ctx, access);
         }
 
-        // Document download endpoint
-        if (url.pathname.startsWith('/documents/')) {
-            // url.pathname is already decoded by URL constructor
-            const filePath = url.pathname.replace('/documents/', '');
-            if (!filePath) {
-                return Response.json({ error: 'File path required' }, { status: 400 });
+        // Conversation management endpoints
+        if (url.pathname === '/api/rooms' || url.pathname.startsWith('/api/rooms/')) {
+            return await handleRoomsRequest(request, env, url, access);
+        }
+
+        // Answer cache statistics and per-RAG invalidation
+        if (url.pathname === '/api/cache') {
+            if (!access.isAdmin) {
+                return Response.json({ success: false, error: 'Forbidden' }, { status: 403 });
             }
+            return await handleCacheRequest(request, env, url);
+        }
 
-            // Decode the filePath to handle encoded slashes
-            const decodedPath = decodeURIComponent(filePath);
+        // Usage totals and quota status
+        if (url.pathname === '/api/usage') {
+            return await handleUsageRequest(request, env, url, access);
+        }
 
-            // Extract just the filename from the full path for download
-            const filename = decodedPath.split('/').pop() || decodedPath;
+        // Answer feedback export and the files it penalizes
+        if (url.pathname === '/api/feedback' || url.pathname.startsWith('/api/feedback/')) {
+            if (!access.isAdmin) {
+                return Response.json({ success: false, error: 'Forbidden' }, { status: 403 });
+            }
+            return await handleFeedbackRequest(request, env, url);
+        }
 
-            console.log('[Worker] Fetching document from R2:', filename);
+        // Saved searches re-run on a schedule
+        if (url.pathname === '/api/saved-searches' || url.pathname.startsWith('/api/saved-searches/')) {
+            return await handleSavedSearchesRequest(request, env, url, access);
+        }
 
-            try {
-                // Get the object from R2 using the filename (not the full path)
-                const object = await env.BUCKET.get(decodedPath);
+        // Route to agents under /agents/* path using the built-in router
+        if (url.pathname.startsWith('/agents/')) {
+            // Only SearchAgent rooms are reachable; the room registry is internal
+            if (!url.pathname.startsWith('/agents/search-agent/')) {
+                return Response.json({ error: 'Agent not found' }, { status: 404 });
+            }
 
-                if (!object) {
-                    console.error('[Worker] Document not found in R2:', decodedPath);
-                    return Response.json({ error: 'File not found' }, { status: 404 });
+            // A room belongs to the first user who opens it
+            if (access.user) {
+                const roomId = url.pathname.split('/')[3];
+                if (!roomId) {
+                    return Response.json({ error: 'Agent not found' }, { status: 404 });
+                }
+                const owner = await getRoomRegistry(env).claimRoom(roomId, access.user.id);
+                if (owner !== access.user.id) {
+                    return Response.json({ error: 'Room belongs to another user' }, { status: 403 });
                 }
+            }
 
-                // Return the file with appropriate headers
-                const headers = new Headers();
-                headers.set('Content-Type', object.httpMetadata?.contentType || 'application/pdf');
-                headers.set('Content-Disposition', `attachment; filename="${filename}"`);
-                headers.set('Cache-Control', 'public, max-age=31536000');
+            return await routeAgentRequest(withAuthContext(request, access), env) ||
+                Response.json({ error: 'Agent not found' }, { status: 404 });
+        }
 
-                return new Response(object.body, { headers });
-            } catch (error: any) {
-                console.error('[Worker] Error fetching document:', error);
-                return Response.json({ error: 'Failed to fetch document' }, { status: 500 });
-            }
+        // Document viewing, download and preview endpoints
+        if (url.pathname.startsWith('/documents/')) {
+            return await handleDocumentRequest(request, env, url, access);
         }
 
         // Default: serve static assets
@@ -0,0 +1,237 @@
+import { generateText, type LanguageModel } from 'ai';
+import type { Citation } from './evidence';
+import { toTokenUsage, type TokenUsage } from './trace';
+import type { Env } from './types';
+
+// Long-term memory of a room: a rolling summary of the messages compacted out of the live history,
+// and the facts established by earlier answers, each with the documents it was cited from.
+
+export interface MemorySource {
+    filename: string;
+    file_id: string;
+    rag: string;
+}
+
+export interface MemoryFact {
+    text: string;
+    sources: MemorySource[];
+    // Assistant message the fact was established in
+    messageId?: string;
+    createdAt: number;
+}
+
+export interface ConversationMemory {
+    summary: string;
+    facts: MemoryFact[];
+    // Messages folded into the summary so far
+    compactedMessages: number;
+    updatedAt: number;
+}
+
+export interface MemorySettings {
+    enabled: boolean;
+    // Estimated tokens of live history above which the oldest messages are compacted
+    tokenBudget: number;
+    // Most recent messages that always stay in the live history
+    keepRecent: number;
+    // Facts kept per room (oldest are dropped first)
+    maxFacts: number;
+    // Facts given to each prompt, the most relevant to the query first
+    factsPerPrompt: number;
+}
+
+export const EMPTY_MEMORY: ConversationMemory = { summary: '', facts: [], compactedMessages: 0, updatedAt: 0 };
+
+export function memorySettings(env: Env): MemorySettings {
+    return {
+        enabled: env.MEMORY_ENABLED !== 'false',
+        tokenBudget: parseInt(env.MEMORY_TOKEN_BUDGET || '', 10) || 8000,
+        keepRecent: parseInt(env.MEMORY_KEEP_RECENT || '', 10) || 6,
+        maxFacts: parseInt(env.MEMORY_MAX_FACTS || '', 10) || 100,
+        factsPerPrompt: parseInt(env.MEMORY_FACTS_PER_PROMPT || '', 10) || 8,
+    };
+}
+
+export function isEmptyMemory(memory: ConversationMemory | undefined): boolean {
+    return !memory || (!memory.summary && memory.facts.length === 0);
+}
+
+// Rough token count (4 characters per token), enough to decide when to compact
+export function estimateTokens(messages: any[]): number {
+    return messages.reduce((sum, message) => sum + Math.ceil(String(message.content || '').length / 4), 0);
+}
+
+// Words too common to relate a fact to a query
+const STOPWORDS = new Set([
+    'the', 'and', 'for', 'are', 'was', 'were', 'has', 'have', 'had', 'its', 'this', 'that', 'these', 'those', 'with',
+    'from', 'into', 'about', 'what', 'which', 'who', 'when', 'where', 'why', 'how', 'does', 'did', 'not', 'but', 'all',
+    'any', 'can', 'their', 'there', 'than', 'then', 'also', 'been', 'being', 'our', 'your', 'you', 'they', 'them',
+]);
+
+function terms(text: string): Set<string> {
+    return new Set((text.toLowerCase().match(/[a-z0-9]+/g) || []).filter((term) => term.length > 2 && !STOPWORDS.has(term)));
+}
+
+// Titles, Latin and other abbreviations whose period does not end a sentence, and initials such as "J."
+const ABBREVIATION = /(?:^|[\s(])(?:dr|mr|mrs|ms|prof|sr|jr|st|vs|cf|al|approx|fig|no|e\.g|i\.e|etc|inc|ltd|corp|dept|jan|feb|mar|apr|jun|jul|aug|sep|sept|oct|nov|dec)\.$/i;
+const INITIAL = /(?:^|\s)[A-Z]\.$/;
+
+// Split text into sentences. Markers placed after the closing punctuation still belong to the sentence
+// before them, and a period after an abbreviation or before a lowercase word does not end one.
+function splitSentences(text: string): string[] {
+    const sentences: string[] = [];
+    for (const line of text.split(/\n+/)) {
+        const pieces = line.split(/(?<=[.!?](?:\s*\[\d+(?:\s*,\s*\d+)*\])*)\s+(?!\[\d)/);
+        let sentence = pieces[0];
+        for (const piece of pieces.slice(1)) {
+            if (ABBREVIATION.test(sentence) || INITIAL.test(sentence) || /^[a-z]/.test(piece)) {
+                sentence += ` ${piece}`;
+            } else {
+                sentences.push(sentence);
+                sentence = piece;
+            }
+        }
+        sentences.push(sentence);
+    }
+    return sentences;
+}
+
+// Sentences of an answer that cite evidence become facts, with the cited documents as their sources
+export function factsFromAnswer(answer: string, citations: Citation[], messageId?: string): MemoryFact[] {
+    const byMarker = new Map(citations.map((citation) => [citation.marker, citation]));
+    const facts: MemoryFact[] = [];
+    const createdAt = Date.now();
+
+    for (const sentence of splitSentences(answer)) {
+        const markers = Array.from(sentence.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g))
+            .flatMap((match) => match[1].split(',').map((value) => parseInt(value.trim(), 10)));
+        const cited = markers.map((marker) => byMarker.get(marker)).filter((citation): citation is Citation => !!citation);
+        if (cited.length === 0) {
+            continue;
+        }
+
+        const text = sentence
+            .replace(/\[(\d+(?:\s*,\s*\d+)*)\]/g, '')
+            .replace(/^[\s*#>-]+|\*\*/g, '')
+            // Table rows (from table answers) become "cell; cell"
+            .replace(/\s*\|\s*/g, '; ')
+            .replace(/^[;\s]+|[;\s]+$/g, '')
+            .replace(/\s+([.,;:!?])/g, '$1')
+            .replace(/\s+/g, ' ')
+            .trim();
+        if (text.length < 10) {
+            continue;
+        }
+
+        const sources = new Map<string, MemorySource>();
+        for (const citation of cited) {
+            sources.set(`${citation.rag}:${citation.filename}`, { filename: citation.filename, file_id: citation.file_id, rag: citation.rag });
+        }
+        facts.push({ text, sources: Array.from(sources.values()), ...(messageId ? { messageId } : {}), createdAt });
+    }
+
+    return facts;
+}
+
+// Add new facts, replacing earlier ones with the same text, and keep the newest maxFacts
+export function addFacts(memory: ConversationMemory, facts: MemoryFact[], maxFacts: number): ConversationMemory {
+    if (facts.length === 0) {
+        return memory;
+    }
+    const key = (fact: MemoryFact) => fact.text.toLowerCase();
+    const replaced = new Set(facts.map(key));
+    return {
+        ...memory,
+        facts: [...memory.facts.filter((fact) => !replaced.has(key(fact))), ...facts].slice(-maxFacts),
+        updatedAt: Date.now(),
+    };
+}
+
+// Facts sharing the most terms with the query, ties going to the most recent. Facts sharing none are left out.
+export function relevantFacts(memory: ConversationMemory, query: string, limit: number): MemoryFact[] {
+    const queryTerms = terms(query);
+    return memory.facts
+        .map((fact, index) => {
+            const factTerms = terms(fact.text);
+            let overlap = 0;
+            for (const term of queryTerms) {
+                if (factTerms.has(term)) {
+                    overlap++;
+                }
+            }
+            return { fact, overlap, index };
+        })
+        .filter(({ overlap }) => overlap > 0)
+        .sort((a, b) => b.overlap - a.overlap || b.index - a.index)
+        .slice(0, limit)
+        .map(({ fact }) => fact);
+}
+
+// Prompt section with the conversation summary and the facts relevant to the query ('' when there is nothing to add)
+export function memorySection(memory: ConversationMemory | undefined, query: string, limit: number): string {
+    if (!memory || isEmptyMemory(memory)) {
+        return '';
+    }
+    const facts = relevantFacts(memory, query, limit);
+    if (!memory.summary && facts.length === 0) {
+        return '';
+    }
+    const parts: string[] = [];
+    if (memory.summary) {
+        parts.push(`Summary of the Earlier Conversation:\n${memory.summary}`);
+    }
+    if (facts.length > 0) {
+        parts.push(`Facts Established Earlier in this Conversation (with their source documents):\n${facts
+            .map((fact) => `- ${fact.text} (source: ${fact.sources.map((source) => source.filename).join(', ')})`)
+            .join('\n')}`);
+    }
+    return parts.join('\n\n') + '\n\n';
+}
+
+// Fold the oldest messages into the rolling summary once the live history is over the token budget.
+// Returns null when nothing needs compacting; otherwise the messages that were folded in (to archive),
+// the ones to keep and the updated memory.
+export async function compactConversation(model: LanguageModel, memory: ConversationMemory, messages: any[], settings: MemorySettings): Promise<{
+    compacted: any[];
+    kept: any[];
+    memory: ConversationMemory;
+    usage: TokenUsage;
+} | null> {
+    if (messages.length <= settings.keepRecent || estimateTokens(messages) <= settings.tokenBudget) {
+        return null;
+    }
+
+    // Keep whole turns: the kept history starts with a question, never with its answer
+    let split = messages.length - settings.keepRecent;
+    while (split > 0 && messages[split].role !== 'user') {
+        split--;
+    }
+    if (split === 0) {
+        return null;
+    }
+    const compacted = messages.slice(0, split);
+
+    const result = await generateText({
+        model: model,
+        prompt: `You maintain the long-term memory of a conversation between a user and a document search assistant.
+
+${memory.summary ? `Current Summary:\n${memory.summary}\n\n` : ''}Messages to fold into the summary (in chronological order):
+${compacted.map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${String(message.content || '').replace(/\[(\d+(?:\s*,\s*\d+)*)\]/g, '')}`).join('\n\n')}
+
+Task: Write an updated summary of the whole conversation so far, as short bullet points. Keep what the user asked about, their goals and preferences, and every concrete finding (figures, dates, names) with the document it came from. Drop small talk and repetition. Keep it under 300 words.
+
+Provide ONLY the updated summary.`,
+    });
+
+    return {
+        compacted,
+        kept: messages.slice(split),
+        memory: {
+            ...memory,
+            summary: result.text.trim(),
+            compactedMessages: memory.compactedMessages + compacted.length,
+            updatedAt: Date.now(),
+        },
+        usage: toTokenUsage(result.totalUsage),
+    };
+}
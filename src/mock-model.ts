@@ -0,0 +1,187 @@
+import type {
+    LanguageModelV2,
+    LanguageModelV2CallOptions,
+    LanguageModelV2Content,
+    LanguageModelV2Prompt,
+    LanguageModelV2StreamPart,
+} from '@ai-sdk/provider';
+import type { ModelRole } from './models';
+
+// Deterministic stand-in for a real LLM, so the agentic loop runs offline (no API keys).
+// Each role answers from the prompt alone:
+// - rewriter: returns the current user query unchanged
+// - extractor: calls searchDocuments once, then turns the results into cited bullets
+// - planner: returns the question as its only sub-question
+// - judge: always reports the knowledge as sufficient
+// - synthesizer: restates the accumulated knowledge bullets
+// - summarizer: keeps the current summary and adds one bullet per folded-in user question
+// Structured output requests get the most favourable object that fits the schema (true, the maximum score).
+
+function promptText(prompt: LanguageModelV2Prompt): string {
+    return prompt
+        .map((message) => {
+            if (typeof message.content === 'string') {
+                return message.content;
+            }
+            return message.content
+                .map((part: any) => (part.type === 'text' ? part.text : ''))
+                .join('\n');
+        })
+        .join('\n');
+}
+
+function toolResults(prompt: LanguageModelV2Prompt): any[] {
+    const results: any[] = [];
+    for (const message of prompt) {
+        if (message.role !== 'tool') {
+            continue;
+        }
+        for (const part of message.content) {
+            if (part.type === 'tool-result' && part.output.type === 'json') {
+                results.push(part.output.value);
+            }
+        }
+    }
+    return results;
+}
+
+function matchLine(text: string, pattern: RegExp): string | undefined {
+    return text.match(pattern)?.[1]?.trim();
+}
+
+// Fill a JSON Schema with fixed values: booleans true, numbers their maximum, only required properties,
+// arrays as short as allowed
+function mockObject(schema: any): any {
+    switch (schema?.type) {
+        case 'object':
+            return Object.fromEntries(
+                Object.entries(schema.properties || {})
+                    .filter(([key]) => (schema.required || []).includes(key))
+                    .map(([key, property]) => [key, mockObject(property)])
+            );
+        case 'array':
+            return Array.from({ length: schema.minItems || 0 }, () => mockObject(schema.items));
+        case 'boolean':
+            return true;
+        case 'number':
+        case 'integer':
+            return schema.maximum ?? schema.minimum ?? 1;
+        case 'string':
+            return schema.enum?.[0] ?? 'mock';
+        default:
+            return schema?.enum?.[0] ?? null;
+    }
+}
+
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+function respond(role: ModelRole, options: LanguageModelV2CallOptions): LanguageModelV2Content[] {
+    const text = promptText(options.prompt);
+
+    if (role === 'planner') {
+        const question = matchLine(text, /^Question: (.+)$/m) || text.trim();
+        return [{ type: 'text', text: JSON.stringify({ subQuestions: [{ question, searchQuery: question }] }) }];
+    }
+
+    if (options.responseFormat?.type === 'json') {
+        const object = options.responseFormat.schema ? mockObject(options.responseFormat.schema) : { isKnowledgeEnough: true };
+        return [{ type: 'text', text: JSON.stringify(object) }];
+    }
+
+    switch (role) {
+        case 'rewriter': {
+            const current = matchLine(text, /Current user query:\n(.+)/);
+            return [{ type: 'text', text: current || text.trim() }];
+        }
+        case 'extractor': {
+            const results = toolResults(options.prompt);
+            const hasSearchTool = options.tools?.some((tool) => tool.name === 'searchDocuments');
+
+            if (results.length === 0 && hasSearchTool) {
+                const query = matchLine(text, /(?:Current|Next) Search Query: (.+)/)
+                    || matchLine(text, /User Original Query: (.+)/)
+                    || text.trim();
+                return [{
+                    type: 'tool-call',
+                    toolCallId: 'mock-call-1',
+                    toolName: 'searchDocuments',
+                    input: JSON.stringify({ query }),
+                }];
+            }
+
+            const bullets = results
+                .flatMap((result) => result.results || [])
+                .slice(0, 5)
+                .map((result: any) => `- ${(result.content || '').substring(0, 160)} ${result.evidence || ''}`.trim());
+            return [{ type: 'text', text: bullets.length > 0 ? bullets.join('\n') : '- No relevant documents were found.' }];
+        }
+        case 'judge': {
+            return [{ type: 'text', text: JSON.stringify({ isKnowledgeEnough: true }) }];
+        }
+        case 'synthesizer': {
+            const query = matchLine(text, /User Query: (.+)/) || '';
+            const bullets = text.split('\n').filter((line) => line.startsWith('- '));
+            return [{ type: 'text', text: `Answer to: ${query}\n\n${bullets.join('\n')}` }];
+        }
+        case 'summarizer': {
+            const current = text.match(/Current Summary:\n([\s\S]*?)\n\n/)?.[1] || '';
+            const questions = Array.from(text.matchAll(/^User: (.+)$/gm)).map((match) => `- User asked: ${match[1].trim()}`);
+            return [{ type: 'text', text: [current, ...questions].filter(Boolean).join('\n') }];
+        }
+    }
+}
+
+export function createMockModel(role: ModelRole, modelId: string = 'default'): LanguageModelV2 {
+    const generate = (options: LanguageModelV2CallOptions) => {
+        const content = respond(role, options);
+        const inputTokens = estimateTokens(promptText(options.prompt));
+        const outputTokens = estimateTokens(content.map((part: any) => part.text || part.input || '').join(''));
+        return {
+            content,
+            finishReason: content.some((part) => part.type === 'tool-call') ? 'tool-calls' as const : 'stop' as const,
+            usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+            warnings: [],
+        };
+    };
+
+    return {
+        specificationVersion: 'v2',
+        provider: 'mock',
+        modelId: `${role}/${modelId}`,
+        supportedUrls: {},
+
+        async doGenerate(options) {
+            // Cancelled runs fail like a real provider request would
+            options.abortSignal?.throwIfAborted();
+            return generate(options);
+        },
+
+        async doStream(options) {
+            options.abortSignal?.throwIfAborted();
+            const result = generate(options);
+            const stream = new ReadableStream<LanguageModelV2StreamPart>({
+                start(controller) {
+                    controller.enqueue({ type: 'stream-start', warnings: [] });
+                    result.content.forEach((part, index) => {
+                        if (part.type !== 'text') {
+                            controller.enqueue(part as LanguageModelV2StreamPart);
+                            return;
+                        }
+                        const id = `text-${index}`;
+                        controller.enqueue({ type: 'text-start', id });
+                        // Split into word-sized deltas so consumers see real streaming
+                        for (const delta of part.text.match(/\S+\s*|\s+/g) || []) {
+                            controller.enqueue({ type: 'text-delta', id, delta });
+                        }
+                        controller.enqueue({ type: 'text-end', id });
+                    });
+                    controller.enqueue({ type: 'finish', finishReason: result.finishReason, usage: result.usage });
+                    controller.close();
+                },
+            });
+            return { stream };
+        },
+    };
+}
@@ -0,0 +1,110 @@
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModel } from 'ai';
+import { createWorkersAI, type WorkersAI } from 'workers-ai-provider';
+import { z } from 'zod';
+import { createMockModel } from './mock-model';
+import type { Env } from './types';
+
+// The steps of the agentic loop that each use their own model
+// (summarizer compacts old messages into the room's memory, outside the loop)
+export const MODEL_ROLES = ['rewriter', 'planner', 'extractor', 'judge', 'synthesizer', 'summarizer'] as const;
+
+export type ModelRole = typeof MODEL_ROLES[number];
+
+// A model is referenced as "<provider>:<model id>", e.g. "google:gemini-2.5-flash",
+// "workers-ai:@cf/meta/llama-3.3-70b-instruct-fp8-fast", "openai-compatible:gpt-4o-mini" or "mock:default"
+export const PROVIDERS = ['google', 'workers-ai', 'openai-compatible', 'mock'] as const;
+
+const modelSpecSchema = z.string().refine(
+    (spec) => PROVIDERS.some((provider) => spec.startsWith(`${provider}:`) && spec.length > provider.length + 1),
+    { message: `Model must be "<provider>:<model id>" with provider one of: ${PROVIDERS.join(', ')}` }
+);
+
+export const modelConfigSchema = z.object({
+    rewriter: modelSpecSchema.optional(),
+    planner: modelSpecSchema.optional(),
+    extractor: modelSpecSchema.optional(),
+    judge: modelSpecSchema.optional(),
+    synthesizer: modelSpecSchema.optional(),
+    summarizer: modelSpecSchema.optional(),
+});
+
+export type ModelConfig = z.infer<typeof modelConfigSchema>;
+
+export type ModelRegistry = (role: ModelRole) => LanguageModel;
+
+const DEFAULT_MODELS: Record<ModelRole, string> = {
+    rewriter: 'google:gemini-2.5-flash',
+    planner: 'google:gemini-2.5-flash',
+    extractor: 'google:gemini-2.5-flash',
+    judge: 'google:gemini-2.5-flash',
+    synthesizer: 'google:gemini-2.5-pro',
+    summarizer: 'google:gemini-2.5-flash',
+};
+
+const ROLE_ENV_VARS: Record<ModelRole, keyof Env> = {
+    rewriter: 'MODEL_REWRITER',
+    planner: 'MODEL_PLANNER',
+    extractor: 'MODEL_EXTRACTOR',
+    judge: 'MODEL_JUDGE',
+    synthesizer: 'MODEL_SYNTHESIZER',
+    summarizer: 'MODEL_SUMMARIZER',
+};
+
+// Text generation models of Workers AI; the account's catalog decides at runtime which exist
+type WorkersAiModelId = Parameters<WorkersAI>[0];
+
+// Pick the model for each role: per-room/request override, then env var, then MODEL_DEFAULT, then built-in default
+export function resolveModelSpecs(env: Env, overrides: ModelConfig = {}): Record<ModelRole, string> {
+    const specs = {} as Record<ModelRole, string>;
+    for (const role of MODEL_ROLES) {
+        specs[role] = overrides[role]
+            || (env[ROLE_ENV_VARS[role]] as string | undefined)
+            || env.MODEL_DEFAULT
+            || DEFAULT_MODELS[role];
+    }
+    return specs;
+}
+
+export function createModel(spec: string, role: ModelRole, env: Env): LanguageModel {
+    const separator = spec.indexOf(':');
+    const provider = spec.substring(0, separator);
+    const modelId = spec.substring(separator + 1);
+
+    switch (provider) {
+        case 'google':
+            return createGoogleGenerativeAI({ apiKey: env.GOOGLE_GENERATIVE_AI_API_KEY })(modelId);
+        case 'workers-ai':
+            return createWorkersAI({ binding: env.AI })(modelId as WorkersAiModelId);
+        case 'openai-compatible': {
+            if (!env.OPENAI_COMPATIBLE_BASE_URL) {
+                throw new Error('OPENAI_COMPATIBLE_BASE_URL must be set to use openai-compatible models');
+            }
+            return createOpenAICompatible({
+                name: 'openai-compatible',
+                baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+                apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+            })(modelId);
+        }
+        case 'mock':
+            return createMockModel(role, modelId);
+        default:
+            throw new Error(`Unknown model provider "${provider}" in "${spec}"`);
+    }
+}
+
+export function createModelRegistry(env: Env, overrides: ModelConfig = {}): ModelRegistry {
+    const specs = resolveModelSpecs(env, overrides);
+    const models = new Map<ModelRole, LanguageModel>();
+
+    return (role) => {
+        let model = models.get(role);
+        if (!model) {
+            model = createModel(specs[role], role, env);
+            models.set(role, model);
+            console.log(`[Agent] Using ${specs[role]} for ${role}`);
+        }
+        return model;
+    };
+}
@@ -0,0 +1,205 @@
+import { Validator } from '@cfworker/json-schema';
+import { jsonSchema, zodSchema, type Schema } from 'ai';
+import { z } from 'zod';
+
+// How the final answer is produced: free-form Markdown streamed as text, or a structured object
+// streamed as partial objects and validated against a schema
+export const OUTPUT_MODES = ['markdown', 'table', 'timeline', 'json'] as const;
+
+export type OutputMode = typeof OUTPUT_MODES[number];
+
+// Largest JSON Schema accepted with outputMode json, serialized
+const MAX_SCHEMA_LENGTH = 20000;
+
+export const outputFormatSchema = z.object({
+    outputMode: z.enum(OUTPUT_MODES).default('markdown'),
+    // JSON Schema of the answer for outputMode json; its root must be an object
+    outputSchema: z.record(z.string(), z.unknown())
+        .refine((schema) => schema.type === 'object', { message: 'outputSchema must have type "object" at its root' })
+        .refine((schema) => JSON.stringify(schema).length <= MAX_SCHEMA_LENGTH, { message: `outputSchema must be under ${MAX_SCHEMA_LENGTH} characters` })
+        .optional(),
+}).refine((format) => !format.outputSchema || format.outputMode === 'json', { message: 'outputSchema is only used with outputMode json' });
+
+export type OutputFormat = z.infer<typeof outputFormatSchema>;
+
+export const MARKDOWN_OUTPUT: OutputFormat = { outputMode: 'markdown' };
+
+const citationsField = z.array(z.number().int())
+    .describe('Evidence markers (the numbers from [n]) of the accumulated knowledge supporting this entry');
+
+const tableSchema = z.object({
+    title: z.string().describe('Short title of the table'),
+    columns: z.array(z.string()).min(1).describe('Column headers'),
+    rows: z.array(z.object({
+        cells: z.array(z.string()).describe('One value per column, in the order of the columns'),
+        citations: citationsField,
+    })),
+    notes: z.string().optional().describe('Caveats, gaps or assumptions behind the table'),
+});
+
+const timelineSchema = z.object({
+    title: z.string().describe('Short title of the timeline'),
+    events: z.array(z.object({
+        date: z.string().describe('Date of the event as precise as the evidence allows: YYYY-MM-DD, YYYY-MM or YYYY'),
+        title: z.string().describe('What happened, in a few words'),
+        description: z.string().describe('One or two sentences of detail'),
+        citations: citationsField,
+    })).describe('Events in chronological order'),
+    notes: z.string().optional().describe('Caveats, gaps or assumptions behind the timeline'),
+});
+
+// Used with outputMode json when no schema is supplied
+const DEFAULT_JSON_SCHEMA = {
+    type: 'object',
+    properties: {
+        answer: { type: 'string', description: 'Short answer to the question' },
+        facts: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    statement: { type: 'string' },
+                    value: { type: 'string', description: 'The figure, date or name stated, if any' },
+                },
+                required: ['statement'],
+            },
+        },
+    },
+    required: ['answer', 'facts'],
+};
+
+export type StructuredAnswer =
+    | { mode: 'table'; object: z.infer<typeof tableSchema> }
+    | { mode: 'timeline'; object: z.infer<typeof timelineSchema> }
+    | { mode: 'json'; object: { data: any; citations: number[] } };
+
+// The user's JSON Schema is wrapped so the answer can carry its citations next to the data
+function jsonAnswerSchema(dataSchema: Record<string, unknown>): Schema<{ data: any; citations: number[] }> {
+    const validator = new Validator(dataSchema as any, undefined, false);
+    return jsonSchema({
+        type: 'object',
+        properties: {
+            data: dataSchema as any,
+            citations: {
+                type: 'array',
+                items: { type: 'integer' },
+                description: 'Evidence markers (the numbers from [n]) of the accumulated knowledge the data comes from',
+            },
+        },
+        required: ['data', 'citations'],
+    }, {
+        validate: (value: any) => {
+            if (!value || typeof value !== 'object' || !Array.isArray(value.citations)) {
+                return { success: false, error: new Error('Answer must be an object with data and citations') };
+            }
+            const result = validator.validate(value.data);
+            if (!result.valid) {
+                const details = result.errors.slice(0, 5).map((error) => `${error.instanceLocation}: ${error.error}`).join('; ');
+                return { success: false, error: new Error(`Answer does not match outputSchema: ${details}`) };
+            }
+            return { success: true, value };
+        },
+    });
+}
+
+export function structuredSchema(format: OutputFormat): Schema<StructuredAnswer['object']> {
+    switch (format.outputMode) {
+        case 'table':
+            return zodSchema(tableSchema);
+        case 'timeline':
+            return zodSchema(timelineSchema);
+        case 'json':
+            return jsonAnswerSchema(format.outputSchema || DEFAULT_JSON_SCHEMA);
+        default:
+            throw new Error(`Output mode ${format.outputMode} is not structured`);
+    }
+}
+
+// What the synthesizer is asked to produce in each mode
+export function structuredInstructions(format: OutputFormat): string {
+    switch (format.outputMode) {
+        case 'table':
+            return 'Present the answer as a table: choose columns that make the items comparable (for example one row per report, agency or year), give every row one cell per column, and write "n/a" where the knowledge has no value.';
+        case 'timeline':
+            return 'Present the answer as a timeline: one event per dated fact, in chronological order.';
+        case 'json':
+            return 'Fill in the data object exactly as its schema describes, using only values supported by the accumulated knowledge. Leave out optional fields the knowledge does not cover.';
+        default:
+            return '';
+    }
+}
+
+function markers(citations: number[] | undefined): string {
+    return citations && citations.length > 0 ? citations.map((marker) => `[${marker}]`).join('') : '';
+}
+
+function escapeCell(text: string): string {
+    return String(text ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+// Complete a partial object streamed before the run was cancelled into a structured answer, filling in
+// what the model had not written yet
+export function partialStructuredAnswer(mode: OutputMode, partial: any): StructuredAnswer {
+    const object = partial && typeof partial === 'object' ? partial : {};
+    const strings = (values: unknown) => (Array.isArray(values) ? values : []).map((value) => typeof value === 'string' ? value : '');
+    const citations = (values: unknown) => (Array.isArray(values) ? values : []).filter((value) => Number.isInteger(value));
+    const items = (values: unknown) => (Array.isArray(values) ? values : []).filter((value) => value && typeof value === 'object');
+    const notes = typeof object.notes === 'string' && object.notes ? { notes: object.notes } : {};
+    switch (mode) {
+        case 'table':
+            return {
+                mode,
+                object: {
+                    title: typeof object.title === 'string' ? object.title : '',
+                    columns: strings(object.columns),
+                    rows: items(object.rows).map((row: any) => ({ cells: strings(row.cells), citations: citations(row.citations) })),
+                    ...notes,
+                },
+            };
+        case 'timeline':
+            return {
+                mode,
+                object: {
+                    title: typeof object.title === 'string' ? object.title : '',
+                    events: items(object.events).map((event: any) => ({
+                        date: typeof event.date === 'string' ? event.date : '',
+                        title: typeof event.title === 'string' ? event.title : '',
+                        description: typeof event.description === 'string' ? event.description : '',
+                        citations: citations(event.citations),
+                    })),
+                    ...notes,
+                },
+            };
+        default:
+            return { mode: 'json', object: { data: object.data ?? {}, citations: citations(object.citations) } };
+    }
+}
+
+// Markdown rendering of a structured answer, kept as the message content so history, memory,
+// exports and citations work the same as for Markdown answers
+export function structuredToMarkdown(answer: StructuredAnswer): string {
+    switch (answer.mode) {
+        case 'table': {
+            const { title, columns, rows, notes } = answer.object;
+            const lines = [
+                `**${title}**`,
+                '',
+                `| ${columns.map(escapeCell).join(' | ')} | Sources |`,
+                `|${columns.map(() => '---').join('|')}|---|`,
+                ...rows.map((row) => `| ${columns.map((_, index) => escapeCell(row.cells[index] ?? '')).join(' | ')} | ${markers(row.citations)} |`),
+            ];
+            return [...lines, ...(notes ? ['', notes] : [])].join('\n');
+        }
+        case 'timeline': {
+            const { title, events, notes } = answer.object;
+            const lines = [
+                `**${title}**`,
+                '',
+                ...events.map((event) => `- **${event.date}** - ${event.title}: ${event.description} ${markers(event.citations)}`.trim()),
+            ];
+            return [...lines, ...(notes ? ['', notes] : [])].join('\n');
+        }
+        case 'json':
+            return `\`\`\`json\n${JSON.stringify(answer.object.data, null, 2)}\n\`\`\`\n\nSources: ${markers(answer.object.citations) || 'none'}`;
+    }
+}
@@ -0,0 +1,235 @@
+// WebSocket protocol between clients and the SearchAgent, shared by the Worker and the client package
+// (client/). Only zod and pure modules may be imported here, so that clients can bundle it.
+//
+// Handshake: clients open /agents/search-agent/<room>?protocol=1 (versions they speak, comma-separated)
+// and optionally &lastMessageId=<id> to resume after a disconnect. The agent answers with `welcome`
+// (the negotiated version) and `message-history` (the messages after lastMessageId, or all of them),
+// or with an `unsupported-protocol` error before closing. Connections without ?protocol predate the
+// handshake and may still send the untyped legacy messages.
+import { z } from 'zod';
+import type { OUTPUT_MODES } from './output-modes';
+import { retrievalSettingsUpdateSchema } from './retrieval';
+
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS: number[] = [1];
+
+// Close code sent when client and server have no protocol version in common
+export const UNSUPPORTED_PROTOCOL_CLOSE_CODE = 4000;
+
+// Highest version both sides speak, or null
+export function negotiateVersion(offered: number[]): number | null {
+    const common = offered.filter((version) => SUPPORTED_PROTOCOL_VERSIONS.includes(version));
+    return common.length > 0 ? Math.max(...common) : null;
+}
+
+// Versions listed in ?protocol=1,2 (empty if none)
+export function parseOfferedVersions(param: string | null): number[] {
+    return (param || '').split(',').map((version) => parseInt(version.trim(), 10)).filter((version) => Number.isInteger(version) && version > 0);
+}
+
+// Client-chosen message IDs are kept if they look like this and are not taken yet
+export const MESSAGE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Same as OUTPUT_MODES in output-modes.ts, which cannot be imported here (it pulls in the AI SDK)
+const OUTPUT_MODE_VALUES = ['markdown', 'table', 'timeline', 'json'] as const satisfies typeof OUTPUT_MODES;
+
+// A file of the answer the user says should not have been used
+export const wrongSourceSchema = z.object({
+    rag: z.string().min(1),
+    filename: z.string().min(1),
+    file_id: z.string().optional(),
+});
+
+// Fields of a piece of answer feedback; feedback.ts adds the check that at least one is given
+export const feedbackFields = {
+    // null clears an earlier rating
+    rating: z.enum(['up', 'down']).nullable().optional(),
+    comment: z.string().trim().max(2000).optional(),
+    wrongSources: z.array(wrongSourceSchema).max(20).optional(),
+};
+
+// Client -> server
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+    // Ask a question; the answer streams back as text-delta (or object-delta) events up to finish
+    z.object({
+        type: z.literal('chat'),
+        id: z.string().regex(MESSAGE_ID_PATTERN).optional(),
+        content: z.string().trim().min(1),
+        outputMode: z.enum(OUTPUT_MODE_VALUES).optional(),
+        outputSchema: z.record(z.string(), z.unknown()).optional(),
+    }),
+    // Room settings; fields left out are unchanged, retrievalSettings are merged
+    z.object({
+        type: z.literal('settings'),
+        selectedRags: z.array(z.string().min(1)).min(1).optional(),
+        models: z.record(z.string(), z.string()).optional(),
+        retrievalSettings: retrievalSettingsUpdateSchema.optional(),
+    }),
+    // Stop the run in progress; the partial answer is kept
+    z.object({ type: z.literal('cancel') }),
+    // Hint for the next iteration of the run in progress
+    z.object({ type: z.literal('steer'), hint: z.string().trim().min(1) }),
+    // Thumbs up/down, comment or wrong-source flags on an answer
+    z.object({ type: z.literal('feedback'), messageId: z.string().min(1), ...feedbackFields }),
+]);
+
+export type ClientMessage = z.input<typeof clientMessageSchema>;
+export type ParsedClientMessage = z.output<typeof clientMessageSchema>;
+
+// Untyped message of clients from before the handshake: settings and new messages in one object
+const legacyMessageSchema = z.object({
+    selectedRag: z.string().optional(),
+    selectedRags: z.array(z.unknown()).optional(),
+    models: z.unknown().optional(),
+    retrievalSettings: z.unknown().optional(),
+    messages: z.array(z.object({ id: z.unknown().optional(), content: z.string() }).loose()).optional(),
+    outputMode: z.unknown().optional(),
+    outputSchema: z.unknown().optional(),
+});
+
+function describeIssues(error: z.ZodError): string {
+    return error.issues.map((issue) => `${issue.path.join('.') || 'message'}: ${issue.message}`).join(', ');
+}
+
+// Validate a message received on a connection speaking `version` (0: no handshake). Legacy messages
+// are translated into typed ones, settings first.
+export function parseClientMessage(raw: string, version: number): { messages: ParsedClientMessage[]; error?: string } {
+    let data: any;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        return { messages: [], error: 'Message is not valid JSON' };
+    }
+
+    if (version > 0 || (data && typeof data.type === 'string')) {
+        const message = clientMessageSchema.safeParse(data);
+        if (!message.success) {
+            return { messages: [], error: `Invalid message: ${describeIssues(message.error)}` };
+        }
+        return { messages: [message.data] };
+    }
+
+    const legacy = legacyMessageSchema.safeParse(data);
+    if (!legacy.success) {
+        return { messages: [], error: `Invalid message: ${describeIssues(legacy.error)}` };
+    }
+    const selectedRags = Array.isArray(data.selectedRags)
+        ? data.selectedRags.filter((rag: unknown) => typeof rag === 'string' && rag)
+        : (data.selectedRag ? [data.selectedRag] : []);
+    const candidates: unknown[] = [];
+    if (selectedRags.length > 0 || data.models !== undefined || data.retrievalSettings !== undefined) {
+        candidates.push({
+            type: 'settings',
+            ...(selectedRags.length > 0 ? { selectedRags } : {}),
+            ...(data.models !== undefined ? { models: data.models } : {}),
+            ...(data.retrievalSettings !== undefined ? { retrievalSettings: data.retrievalSettings } : {}),
+        });
+    }
+    for (const msg of legacy.data.messages || []) {
+        candidates.push({
+            type: 'chat',
+            ...(typeof msg.id === 'string' && MESSAGE_ID_PATTERN.test(msg.id) ? { id: msg.id } : {}),
+            content: msg.content,
+            ...(data.outputMode !== undefined ? { outputMode: data.outputMode } : {}),
+            ...(data.outputSchema !== undefined ? { outputSchema: data.outputSchema } : {}),
+        });
+    }
+
+    const messages: ParsedClientMessage[] = [];
+    for (const candidate of candidates) {
+        const message = clientMessageSchema.safeParse(candidate);
+        if (!message.success) {
+            return { messages: [], error: `Invalid message: ${describeIssues(message.error)}` };
+        }
+        messages.push(message.data);
+    }
+    return { messages };
+}
+
+// Server -> client. Objects are not strict: clients must ignore fields (and message types) they do not know.
+
+const fileSchema = z.object({
+    filename: z.string(),
+    file_id: z.string(),
+    rag: z.string(),
+    previewUrl: z.string().optional(),
+    score: z.number().optional(),
+});
+
+const citationSchema = z.object({
+    // [n] marker in the answer
+    marker: z.number(),
+    rag: z.string(),
+    filename: z.string(),
+    file_id: z.string(),
+    score: z.number(),
+    text: z.string(),
+    url: z.string(),
+    previewUrl: z.string().optional(),
+});
+
+const feedbackStateSchema = z.object({
+    rating: z.enum(['up', 'down']).nullable(),
+    comment: z.string(),
+    wrongSources: z.array(fileSchema.partial({ file_id: true })),
+});
+
+// One step of an answer's reasoning trace; see TraceStep in trace.ts for the fields of each kind
+const traceStepSchema = z.object({
+    kind: z.string(),
+    at: z.number(),
+    durationMs: z.number(),
+});
+
+const historyMessageSchema = z.object({
+    id: z.string(),
+    role: z.string(),
+    content: z.string(),
+    createdAt: z.number().optional(),
+    userId: z.string().optional(),
+    // Assistant messages
+    citations: z.array(citationSchema).optional(),
+    files: z.array(fileSchema).optional(),
+    rags: z.array(z.string()).optional(),
+    rewrittenQuery: z.string().optional(),
+    cached: z.object({ tier: z.enum(['exact', 'semantic']), similarity: z.number(), query: z.string(), createdAt: z.number() }).optional(),
+    structured: z.object({ mode: z.enum(OUTPUT_MODE_VALUES), object: z.unknown() }).optional(),
+    interrupted: z.boolean().optional(),
+    feedback: feedbackStateSchema.optional(),
+});
+
+export const serverMessageSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('welcome'), version: z.number(), supportedVersions: z.array(z.number()), roomId: z.string() }),
+    // resumed: only the messages after the lastMessageId of the handshake
+    z.object({ type: z.literal('message-history'), messages: z.array(historyMessageSchema), resumed: z.boolean().optional() }),
+    z.object({ type: z.literal('query-rewrite'), original: z.string(), rewritten: z.string() }),
+    z.object({ type: z.literal('cache-hit'), tier: z.enum(['exact', 'semantic']), similarity: z.number(), cachedQuery: z.string(), cachedAt: z.number() }),
+    z.object({ type: z.literal('search-start'), query: z.string(), rag: z.string().optional() }),
+    z.object({ type: z.literal('text-delta'), textDelta: z.string() }),
+    // Structured answers: partial objects while streaming, then the validated object
+    z.object({ type: z.literal('object-delta'), mode: z.enum(OUTPUT_MODE_VALUES), object: z.unknown() }),
+    z.object({ type: z.literal('object'), mode: z.enum(OUTPUT_MODE_VALUES), object: z.unknown() }),
+    z.object({ type: z.literal('trace-step'), step: traceStepSchema }),
+    z.object({ type: z.literal('citations'), citations: z.array(citationSchema) }),
+    z.object({ type: z.literal('files'), files: z.array(fileSchema) }),
+    // End of a run; messageId is the ID of the answer (none if nothing was answered)
+    z.object({ type: z.literal('finish'), messageId: z.string().optional(), interrupted: z.boolean().optional() }),
+    z.object({ type: z.literal('run-queued'), position: z.number() }),
+    z.object({ type: z.literal('steer-received'), hint: z.string() }),
+    z.object({ type: z.literal('feedback-saved'), messageId: z.string(), feedback: feedbackStateSchema }),
+    // code: quota-exceeded (with retryAfter seconds), invalid-message or unsupported-protocol (with supportedVersions)
+    z.object({
+        type: z.literal('error'),
+        error: z.string(),
+        code: z.string().optional(),
+        retryAfter: z.number().optional(),
+        supportedVersions: z.array(z.number()).optional(),
+    }),
+]);
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ServerMessageType = ServerMessage['type'];
+export type HistoryMessage = z.infer<typeof historyMessageSchema>;
+export type ProtocolFile = z.infer<typeof fileSchema>;
+export type ProtocolCitation = z.infer<typeof citationSchema>;
@@ -0,0 +1,54 @@
+import { generateObject, type LanguageModel, type LanguageModelUsage } from 'ai';
+import { z } from 'zod';
+
+export interface SubQuestion {
+    question: string;
+    // Keyword-style query searched for this sub-question
+    searchQuery: string;
+}
+
+export interface QueryPlan {
+    subQuestions: SubQuestion[];
+    // Null when planning failed and the query is searched as is
+    usage: LanguageModelUsage | null;
+}
+
+// Break a query into the sub-questions that each need their own search. Simple queries come back
+// as a single sub-question; on failure the query itself is the only one.
+export async function planSubQuestions(model: LanguageModel, query: string, maxSubQuestions: number, context: string = '', abortSignal?: AbortSignal): Promise<QueryPlan> {
+    const fallback: QueryPlan = { subQuestions: [{ question: query, searchQuery: query }], usage: null };
+    if (maxSubQuestions <= 1) {
+        return fallback;
+    }
+
+    try {
+        const { object, usage } = await generateObject({
+            model: model,
+            abortSignal,
+            schema: z.object({
+                subQuestions: z.array(z.object({
+                    question: z.string().describe('A self-contained question that is part of what the user asks'),
+                    searchQuery: z.string().describe('Search query for documents answering this sub-question, using the exact names, numbers and terms of the question'),
+                })).min(1).describe(`1 to ${maxSubQuestions} sub-questions`),
+            }),
+            prompt: `You are planning a document search. Break the question into the separate sub-questions that must each be answered, and researched with their own search, to answer it fully.
+
+${context}Question: ${query}
+
+Task: List 1 to ${maxSubQuestions} sub-questions. A question about a single thing is one sub-question: do not split it artificially. Comparisons, multi-part questions and questions about several entities or periods get one sub-question per part. Keep identifiers (names, report numbers, dates) exactly as written.`,
+        });
+
+        const seen = new Set<string>();
+        const subQuestions = object.subQuestions
+            .map((subQuestion) => ({ question: subQuestion.question.trim(), searchQuery: subQuestion.searchQuery.trim() || subQuestion.question.trim() }))
+            .filter((subQuestion) => subQuestion.question && !seen.has(subQuestion.searchQuery.toLowerCase()) && seen.add(subQuestion.searchQuery.toLowerCase()))
+            .slice(0, maxSubQuestions);
+        return subQuestions.length > 0 ? { subQuestions, usage } : { ...fallback, usage };
+    } catch (error) {
+        if (abortSignal?.aborted) {
+            throw error;
+        }
+        console.error('[Agent] Query planning failed, searching the query as is:', error);
+        return fallback;
+    }
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+// AutoRAG metadata filter, e.g. { type: 'eq', key: 'folder', value: 'legal/' }
+// or { type: 'gte', key: 'timestamp', value: 1704067200 } (Unix seconds)
+const metadataFilterSchema = z.object({
+    type: z.enum(['eq', 'ne', 'gt', 'gte', 'lt', 'lte']),
+    key: z.string().min(1),
+    value: z.union([z.string(), z.number(), z.boolean()]),
+});
+
+// Reranking models of Workers AI; clients choose among these, since local reranking runs them on the account
+export const RERANKING_MODELS = ['@cf/baai/bge-reranker-base'] as const;
+
+export const retrievalSettingsSchema = z.object({
+    maxResults: z.number().int().min(1).max(50),
+    scoreThreshold: z.number().min(0).max(1),
+    rewriteQuery: z.boolean(),
+    rerankingEnabled: z.boolean(),
+    rerankingModel: z.enum(RERANKING_MODELS),
+    // Characters of each chunk shown to the knowledge extraction model
+    chunkLength: z.number().int().min(50).max(5000),
+    filters: z.array(metadataFilterSchema).max(10),
+    // How multiple filters are combined
+    filterMode: z.enum(['and', 'or']),
+    // How results from several RAG instances are merged: reciprocal-rank fusion or normalized scores
+    fusion: z.enum(['rrf', 'score']),
+    // Break the query into sub-questions, each searched on its own
+    decomposeQuery: z.boolean(),
+    maxSubQuestions: z.number().int().min(1).max(6),
+    // Share of the hybrid score that comes from BM25 keyword relevance (the rest is semantic).
+    // 0 keeps the AutoRAG ranking: no keyword scoring, identifier searches or extra candidates.
+    keywordWeight: z.number().min(0).max(1),
+    // Rerank the retrieved chunks in the Worker with rerankingModel, after merging overlapping ones
+    localReranking: z.boolean(),
+});
+
+// Updates only carry the fields being changed
+export const retrievalSettingsUpdateSchema = retrievalSettingsSchema.partial();
+
+export type RetrievalSettings = z.infer<typeof retrievalSettingsSchema>;
+export type RetrievalSettingsUpdate = z.infer<typeof retrievalSettingsUpdateSchema>;
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+    maxResults: 10,
+    scoreThreshold: 0.3,
+    rewriteQuery: false,
+    rerankingEnabled: false,
+    rerankingModel: '@cf/baai/bge-reranker-base',
+    chunkLength: 400,
+    filters: [],
+    filterMode: 'and',
+    fusion: 'rrf',
+    decomposeQuery: false,
+    maxSubQuestions: 3,
+    keywordWeight: 0,
+    localReranking: false,
+};
+
+// Apply a (validated) update on top of existing settings, falling back to the defaults
+export function mergeRetrievalSettings(current: RetrievalSettings | undefined, update: RetrievalSettingsUpdate = {}): RetrievalSettings {
+    return {
+        ...DEFAULT_RETRIEVAL_SETTINGS,
+        ...current,
+        ...update,
+    };
+}
+
+// Build the AutoRAG search() request for a query
+export function toAutoRagSearchRequest(query: string, settings: RetrievalSettings) {
+    const request: any = {
+        query: query,
+        rewrite_query: settings.rewriteQuery,
+        max_num_results: settings.maxResults,
+        ranking_options: {
+            score_threshold: settings.scoreThreshold
+        },
+        reranking: {
+            enabled: settings.rerankingEnabled,
+            model: settings.rerankingModel
+        }
+    };
+
+    if (settings.filters.length === 1) {
+        request.filters = settings.filters[0];
+    } else if (settings.filters.length > 1) {
+        request.filters = {
+            type: settings.filterMode,
+            filters: settings.filters
+        };
+    }
+
+    return request;
+}
@@ -0,0 +1,142 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { Env } from './types';
+
+export interface RoomSummary {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    messageCount: number;
+    rags: string[];
+    // Room this one was forked from, if any
+    forkedFrom: string | null;
+    // User the room belongs to, when auth is enabled
+    owner: string | null;
+}
+
+export interface RoomUpdate {
+    // Only used when the room is first indexed; renames go through renameRoom
+    title?: string;
+    messageCount: number;
+    rags: string[];
+    forkedFrom?: string;
+}
+
+// Index of every conversation room, kept in a single SQLite-backed Durable Object.
+// SearchAgent rooms report themselves here; the /api/rooms routes read and edit it.
+// It also records who owns each room and which documents each user was shown.
+export class RoomRegistry extends DurableObject<Env> {
+    constructor(ctx: DurableObjectState, env: Env) {
+        super(ctx, env);
+        this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS rooms (
+            id TEXT PRIMARY KEY,
+            title TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL,
+            message_count INTEGER NOT NULL DEFAULT 0,
+            rags TEXT NOT NULL DEFAULT '[]',
+            forked_from TEXT
+        )`);
+        // Owners are recorded when a room is first opened, before it has any message
+        this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS room_owners (
+            id TEXT PRIMARY KEY,
+            owner TEXT NOT NULL
+        )`);
+        this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS document_grants (
+            owner TEXT NOT NULL,
+            filename TEXT NOT NULL,
+            granted_at INTEGER NOT NULL,
+            PRIMARY KEY (owner, filename)
+        )`);
+    }
+
+    async upsertRoom(id: string, update: RoomUpdate): Promise<RoomSummary> {
+        const now = Date.now();
+        this.ctx.storage.sql.exec(
+            `INSERT INTO rooms (id, title, created_at, updated_at, message_count, rags, forked_from)
+             VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(id) DO UPDATE SET
+                updated_at = excluded.updated_at,
+                message_count = excluded.message_count,
+                rags = excluded.rags`,
+            id,
+            update.title || 'New conversation',
+            now,
+            now,
+            update.messageCount,
+            JSON.stringify(update.rags),
+            update.forkedFrom || null
+        );
+        return this.getRoom(id);
+    }
+
+    async getRoom(id: string): Promise<RoomSummary | null> {
+        const rows = this.ctx.storage.sql.exec(
+            'SELECT rooms.*, room_owners.owner FROM rooms LEFT JOIN room_owners ON room_owners.id = rooms.id WHERE rooms.id = ?', id
+        ).toArray();
+        return rows.length > 0 ? toSummary(rows[0]) : null;
+    }
+
+    // All rooms, or only those of one owner
+    async listRooms(owner?: string): Promise<RoomSummary[]> {
+        const query = 'SELECT rooms.*, room_owners.owner FROM rooms LEFT JOIN room_owners ON room_owners.id = rooms.id';
+        const cursor = owner
+            ? this.ctx.storage.sql.exec(`${query} WHERE room_owners.owner = ? ORDER BY updated_at DESC`, owner)
+            : this.ctx.storage.sql.exec(`${query} ORDER BY updated_at DESC`);
+        return cursor.toArray().map(toSummary);
+    }
+
+    // Bind a room to a user if nobody owns it yet; returns the room's owner
+    async claimRoom(id: string, owner: string): Promise<string> {
+        this.ctx.storage.sql.exec('INSERT OR IGNORE INTO room_owners (id, owner) VALUES (?, ?)', id, owner);
+        return this.ctx.storage.sql.exec('SELECT owner FROM room_owners WHERE id = ?', id).one().owner as string;
+    }
+
+    async getRoomOwner(id: string): Promise<string | null> {
+        const rows = this.ctx.storage.sql.exec('SELECT owner FROM room_owners WHERE id = ?', id).toArray();
+        return rows.length > 0 ? rows[0].owner as string : null;
+    }
+
+    async grantDocuments(owner: string, filenames: string[]) {
+        const now = Date.now();
+        for (const filename of new Set(filenames)) {
+            this.ctx.storage.sql.exec(
+                'INSERT OR REPLACE INTO document_grants (owner, filename, granted_at) VALUES (?, ?, ?)', owner, filename, now
+            );
+        }
+    }
+
+    async hasDocumentGrant(owner: string, filename: string): Promise<boolean> {
+        return this.ctx.storage.sql.exec(
+            'SELECT 1 FROM document_grants WHERE owner = ? AND filename = ?', owner, filename
+        ).toArray().length > 0;
+    }
+
+    async renameRoom(id: string, title: string): Promise<RoomSummary | null> {
+        this.ctx.storage.sql.exec('UPDATE rooms SET title = ? WHERE id = ?', title, id);
+        return this.getRoom(id);
+    }
+
+    async removeRoom(id: string): Promise<boolean> {
+        const cursor = this.ctx.storage.sql.exec('DELETE FROM rooms WHERE id = ?', id);
+        this.ctx.storage.sql.exec('DELETE FROM room_owners WHERE id = ?', id);
+        return cursor.rowsWritten > 0;
+    }
+}
+
+function toSummary(row: Record<string, SqlStorageValue>): RoomSummary {
+    return {
+        id: row.id as string,
+        title: row.title as string,
+        createdAt: row.created_at as number,
+        updatedAt: row.updated_at as number,
+        messageCount: row.message_count as number,
+        rags: JSON.parse(row.rags as string),
+        forkedFrom: (row.forked_from as string) || null,
+        owner: (row.owner as string) || null,
+    };
+}
+
+export function getRoomRegistry(env: Env): DurableObjectStub<RoomRegistry> {
+    return env.RoomRegistry.get(env.RoomRegistry.idFromName('global'));
+}
@@ -0,0 +1,207 @@
+import { getAgentByName } from 'agents';
+import { z } from 'zod';
+import type { AccessScope } from './auth';
+import { feedbackInputSchema, feedbackSettings } from './feedback';
+import type { SearchAgent } from './index';
+import { getRoomRegistry } from './room-registry';
+import { transcriptToMarkdown } from './transcript';
+import { ANONYMOUS_USER } from './usage';
+import type { Env } from './types';
+
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+const renameSchema = z.object({
+    title: z.string().trim().min(1).max(200),
+});
+
+const forkSchema = z.object({
+    // Number of messages to keep from the start of the conversation (defaults to all)
+    atMessage: z.number().int().min(1).optional(),
+    title: z.string().trim().min(1).max(200).optional(),
+});
+
+// The RPC methods of a room used here. The stub is typed through them, since the compiler gives up on
+// the full RPC type of a chat agent.
+type RoomAgent = Pick<SearchAgent, 'getTranscript' | 'importConversation' | 'deleteConversation' | 'getTrace' | 'getTraces' | 'getMemory' | 'clearMemory' | 'submitFeedback'>;
+
+async function getRoomAgent(env: Env, roomId: string): Promise<RoomAgent> {
+    return await getAgentByName<Env, SearchAgent>(env.SearchAgent, roomId) as unknown as RoomAgent;
+}
+
+function newRoomId(): string {
+    return 'room-' + Date.now() + '-' + Math.random().toString(36).substring(2, 11);
+}
+
+// Parse and validate a JSON request body; error is the 400 response to return
+export async function readJson<T>(request: Request, schema: z.ZodType<T>): Promise<{ data?: T, error?: Response }> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch (error) {
+        return { error: Response.json({ success: false, error: 'Request body must be JSON' }, { status: 400 }) };
+    }
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+        return { error: Response.json({ success: false, error: 'Invalid request', issues: parsed.error.issues }, { status: 400 }) };
+    }
+    return { data: parsed.data };
+}
+
+// /api/rooms routes: list, rename, delete, fork and export conversations, and answer traces
+//   GET    /api/rooms
+//   PATCH  /api/rooms/:id          { title }
+//   DELETE /api/rooms/:id
+//   POST   /api/rooms/:id/fork     { atMessage?, title? }
+//   GET    /api/rooms/:id/export?format=markdown|json
+//   GET    /api/rooms/:id/traces/:messageId
+//   GET    /api/rooms/:id/memory
+//   DELETE /api/rooms/:id/memory
+//   POST   /api/rooms/:id/messages/:messageId/feedback   { rating?: 'up' | 'down' | null, comment?, wrongSources?: [{ rag, filename, file_id? }] }
+// With auth enabled, users only see and act on their own rooms.
+export async function handleRoomsRequest(request: Request, env: Env, url: URL, access: AccessScope): Promise<Response> {
+    const [, , roomId, action, messageId, subaction] = url.pathname.split('/').filter(Boolean);
+    const registry = getRoomRegistry(env);
+
+    try {
+        if (!roomId) {
+            if (request.method === 'GET') {
+                return Response.json({ success: true, rooms: await registry.listRooms(access.user?.id) });
+            }
+            return Response.json({ success: false, error: 'Method not allowed' }, { status: 405 });
+        }
+
+        if (!ROOM_ID_PATTERN.test(roomId)) {
+            return Response.json({ success: false, error: 'Invalid room ID' }, { status: 400 });
+        }
+
+        const room = await registry.getRoom(roomId);
+        // Other users' rooms are reported as missing rather than forbidden
+        if (!room || (access.user && room.owner !== access.user.id)) {
+            return Response.json({ success: false, error: 'Room not found' }, { status: 404 });
+        }
+
+        if (!action && request.method === 'PATCH') {
+            const { data, error } = await readJson(request, renameSchema);
+            if (error) {
+                return error;
+            }
+            return Response.json({ success: true, room: await registry.renameRoom(roomId, data.title) });
+        }
+
+        if (!action && request.method === 'DELETE') {
+            const agent = await getRoomAgent(env, roomId);
+            await agent.deleteConversation();
+            await registry.removeRoom(roomId);
+            console.log('[Worker] Deleted room:', roomId);
+            return Response.json({ success: true });
+        }
+
+        if (action === 'fork' && request.method === 'POST') {
+            const { data, error } = await readJson(request, forkSchema);
+            if (error) {
+                return error;
+            }
+
+            const source = await getRoomAgent(env, roomId);
+            const transcript = await source.getTranscript();
+            const messages = transcript.messages.slice(0, data.atMessage ?? transcript.messages.length);
+            if (messages.length === 0) {
+                return Response.json({ success: false, error: 'Cannot fork an empty conversation' }, { status: 400 });
+            }
+
+            // The fork keeps the facts established by the messages it copies; its summary is rebuilt when it is compacted
+            const messageIds = new Set(messages.map((message: any) => message.id).filter(Boolean));
+            const memory = {
+                summary: '',
+                facts: transcript.memory.facts.filter((fact) => fact.messageId && messageIds.has(fact.messageId)),
+                compactedMessages: 0,
+                updatedAt: Date.now(),
+            };
+            // The copied answers keep their traces under the same message IDs
+            const traces = await source.getTraces(Array.from(messageIds));
+
+            const forkId = newRoomId();
+            if (access.user) {
+                await registry.claimRoom(forkId, access.user.id);
+            }
+            const fork = await getRoomAgent(env, forkId);
+            await fork.importConversation(messages, {
+                selectedRags: transcript.rags,
+                retrievalSettings: transcript.retrievalSettings,
+                models: transcript.models,
+            }, {
+                title: data.title || `${room.title} (fork)`,
+                forkedFrom: roomId,
+            }, memory, traces);
+            console.log('[Worker] Forked room', roomId, 'at message', messages.length, 'into', forkId);
+            return Response.json({ success: true, room: await registry.getRoom(forkId) }, { status: 201 });
+        }
+
+        if (action === 'export' && request.method === 'GET') {
+            const format = url.searchParams.get('format') || 'markdown';
+            const transcript = { room, ...await (await getRoomAgent(env, roomId)).getTranscript() };
+
+            if (format === 'json') {
+                return new Response(JSON.stringify(transcript, null, 2), {
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'Content-Disposition': `attachment; filename="${roomId}.json"`,
+                    },
+                });
+            }
+            if (format === 'markdown' || format === 'md') {
+                return new Response(transcriptToMarkdown(transcript), {
+                    headers: {
+                        'Content-Type': 'text/markdown; charset=utf-8',
+                        'Content-Disposition': `attachment; filename="${roomId}.md"`,
+                    },
+                });
+            }
+            return Response.json({ success: false, error: 'Format must be markdown or json' }, { status: 400 });
+        }
+
+        if (action === 'traces' && messageId && request.method === 'GET') {
+            const trace = await (await getRoomAgent(env, roomId)).getTrace(messageId);
+            if (!trace) {
+                return Response.json({ success: false, error: 'Trace not found' }, { status: 404 });
+            }
+            return Response.json({ success: true, messageId, trace });
+        }
+
+        if (action === 'messages' && messageId && subaction === 'feedback' && request.method === 'POST') {
+            if (!feedbackSettings(env).enabled) {
+                return Response.json({ success: false, error: 'Feedback is not configured' }, { status: 404 });
+            }
+            const { data, error } = await readJson(request, feedbackInputSchema);
+            if (error) {
+                return error;
+            }
+            try {
+                const feedback = await (await getRoomAgent(env, roomId)).submitFeedback(messageId, access.user?.id || ANONYMOUS_USER, data);
+                return Response.json({ success: true, feedback });
+            } catch (error: any) {
+                if (error.message === 'Answer not found') {
+                    return Response.json({ success: false, error: error.message }, { status: 404 });
+                }
+                if (error.message?.endsWith('is not a source of this answer')) {
+                    return Response.json({ success: false, error: error.message }, { status: 400 });
+                }
+                throw error;
+            }
+        }
+
+        if (action === 'memory' && request.method === 'GET') {
+            return Response.json({ success: true, memory: await (await getRoomAgent(env, roomId)).getMemory() });
+        }
+
+        if (action === 'memory' && request.method === 'DELETE') {
+            await (await getRoomAgent(env, roomId)).clearMemory();
+            return Response.json({ success: true });
+        }
+
+        return Response.json({ success: false, error: 'Not found' }, { status: 404 });
+    } catch (error: any) {
+        console.error('[Worker] Rooms API error:', error);
+        return Response.json({ success: false, error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,367 @@
+import { DurableObject } from 'cloudflare:workers';
+import { filterRags, grantDocuments, resolveAccess, type AuthUser } from './auth';
+import { createModelRegistry } from './models';
+import { mergeRetrievalSettings } from './retrieval';
+import {
+    compareRuns,
+    DEFAULT_INTERVAL_HOURS,
+    notifyWebhook,
+    type SavedSearch,
+    type SavedSearchInput,
+    type SavedSearchRun,
+    type SavedSearchRunStatus,
+    type SavedSearchUpdate,
+} from './saved-searches';
+import { runAgenticSearch } from './search-loop';
+import type { TraceStep } from './trace';
+import { admitRequest, ANONYMOUS_USER, recordUsage, runUsage, usageSettings } from './usage';
+import type { Env } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Runs kept per saved search (oldest are dropped first)
+const MAX_RUNS_PER_SEARCH = 50;
+
+// Runs taking longer are cancelled, well within the wall-clock limit of an alarm
+const RUN_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Saved searches and their run history, in a single SQLite-backed Durable Object.
+// An alarm is kept set to the next due search; each alarm re-runs one due search through the agentic loop,
+// diffs the result against the previous run and notifies the webhook of changes.
+export class SavedSearchScheduler extends DurableObject<Env> {
+    constructor(ctx: DurableObjectState, env: Env) {
+        super(ctx, env);
+        this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS saved_searches (
+            id TEXT PRIMARY KEY,
+            owner TEXT,
+            owner_groups TEXT,
+            name TEXT NOT NULL,
+            query TEXT NOT NULL,
+            rags TEXT NOT NULL,
+            retrieval TEXT NOT NULL DEFAULT '{}',
+            models TEXT NOT NULL DEFAULT '{}',
+            interval_hours INTEGER NOT NULL,
+            webhook_url TEXT,
+            enabled INTEGER NOT NULL DEFAULT 1,
+            next_run_at INTEGER NOT NULL,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL
+        )`);
+        this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS saved_search_runs (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            search_id TEXT NOT NULL,
+            ran_at INTEGER NOT NULL,
+            status TEXT NOT NULL,
+            answer TEXT NOT NULL DEFAULT '',
+            files TEXT NOT NULL DEFAULT '[]',
+            citations TEXT NOT NULL DEFAULT '[]',
+            changes TEXT,
+            notified INTEGER,
+            error TEXT
+        )`);
+        this.ctx.storage.sql.exec('CREATE INDEX IF NOT EXISTS saved_search_runs_search ON saved_search_runs (search_id, ran_at)');
+    }
+
+    // The owner's groups are kept to re-check their RAG access on every run
+    async createSearch(owner: AuthUser | null, input: SavedSearchInput): Promise<SavedSearch> {
+        const id = crypto.randomUUID();
+        const now = Date.now();
+        this.ctx.storage.sql.exec(
+            `INSERT INTO saved_searches (id, owner, owner_groups, name, query, rags, retrieval, models, interval_hours, webhook_url, enabled, next_run_at, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            id,
+            owner?.id || null,
+            owner ? JSON.stringify(owner.groups) : null,
+            input.name,
+            input.query,
+            JSON.stringify(input.rags),
+            JSON.stringify(input.retrieval || {}),
+            JSON.stringify(input.models || {}),
+            input.intervalHours || DEFAULT_INTERVAL_HOURS,
+            input.webhookUrl || null,
+            input.enabled === false ? 0 : 1,
+            input.nextRunAt ? Date.parse(input.nextRunAt) : now,
+            now,
+            now
+        );
+        await this.scheduleAlarm();
+        return (await this.getSearch(id))!;
+    }
+
+    async getSearch(id: string): Promise<SavedSearch | null> {
+        const rows = this.ctx.storage.sql.exec(`${SEARCH_QUERY} WHERE saved_searches.id = ?`, id).toArray();
+        return rows.length > 0 ? toSavedSearch(rows[0]) : null;
+    }
+
+    // All saved searches, or only those of one owner
+    async listSearches(owner?: string): Promise<SavedSearch[]> {
+        const cursor = owner
+            ? this.ctx.storage.sql.exec(`${SEARCH_QUERY} WHERE saved_searches.owner = ? ORDER BY created_at DESC`, owner)
+            : this.ctx.storage.sql.exec(`${SEARCH_QUERY} ORDER BY created_at DESC`);
+        return cursor.toArray().map(toSavedSearch);
+    }
+
+    // owner is the user making the update, whose current groups replace the ones kept
+    async updateSearch(id: string, update: SavedSearchUpdate, owner: AuthUser | null = null): Promise<SavedSearch | null> {
+        const search = await this.getSearch(id);
+        if (!search) {
+            return null;
+        }
+        if (owner) {
+            this.ctx.storage.sql.exec('UPDATE saved_searches SET owner_groups = ? WHERE id = ?', JSON.stringify(owner.groups), id);
+        }
+        this.ctx.storage.sql.exec(
+            `UPDATE saved_searches SET name = ?, query = ?, rags = ?, retrieval = ?, models = ?, interval_hours = ?,
+                webhook_url = ?, enabled = ?, next_run_at = ?, updated_at = ? WHERE id = ?`,
+            update.name ?? search.name,
+            update.query ?? search.query,
+            JSON.stringify(update.rags ?? search.rags),
+            JSON.stringify(update.retrieval ?? search.retrieval),
+            JSON.stringify(update.models ?? search.models),
+            update.intervalHours ?? search.intervalHours,
+            update.webhookUrl !== undefined ? update.webhookUrl : search.webhookUrl,
+            (update.enabled ?? search.enabled) ? 1 : 0,
+            update.nextRunAt ? Date.parse(update.nextRunAt) : search.nextRunAt,
+            Date.now(),
+            id
+        );
+        await this.scheduleAlarm();
+        return await this.getSearch(id);
+    }
+
+    async removeSearch(id: string): Promise<boolean> {
+        const cursor = this.ctx.storage.sql.exec('DELETE FROM saved_searches WHERE id = ?', id);
+        this.ctx.storage.sql.exec('DELETE FROM saved_search_runs WHERE search_id = ?', id);
+        await this.scheduleAlarm();
+        return cursor.rowsWritten > 0;
+    }
+
+    // Most recent runs first
+    async listRuns(id: string, limit: number): Promise<SavedSearchRun[]> {
+        return this.ctx.storage.sql.exec(
+            'SELECT * FROM saved_search_runs WHERE search_id = ? ORDER BY ran_at DESC, id DESC LIMIT ?', id, limit
+        ).toArray().map(toRun);
+    }
+
+    // Run a saved search now, outside its schedule
+    async runNow(id: string): Promise<SavedSearchRun | null> {
+        const search = await this.getSearch(id);
+        return search ? await this.execute(search) : null;
+    }
+
+    // One search per alarm, so a slow run does not hold up the others or run into the alarm's time limit;
+    // the alarm is set again right away while more searches are due
+    async alarm() {
+        const now = Date.now();
+        const search = this.ctx.storage.sql.exec(
+            `${SEARCH_QUERY} WHERE enabled = 1 AND next_run_at <= ? ORDER BY next_run_at LIMIT 1`, now
+        ).toArray().map(toSavedSearch)[0];
+
+        if (search) {
+            // Move the schedule on first, so a run that keeps failing is not retried in a loop.
+            // Missed runs (e.g. while disabled) are skipped rather than caught up.
+            const interval = search.intervalHours * HOUR_MS;
+            const nextRunAt = search.nextRunAt + Math.max(1, Math.ceil((now - search.nextRunAt + 1) / interval)) * interval;
+            this.ctx.storage.sql.exec('UPDATE saved_searches SET next_run_at = ? WHERE id = ?', nextRunAt, search.id);
+            // Set for the next due search before running, in case this run never returns
+            await this.scheduleAlarm();
+
+            try {
+                await this.execute(search);
+            } catch (error) {
+                console.error('[Agent] Saved search', search.id, 'failed:', error);
+            }
+        }
+
+        await this.scheduleAlarm();
+    }
+
+    // Keep the alarm set to the next due search
+    async scheduleAlarm() {
+        const next = this.ctx.storage.sql.exec(
+            'SELECT MIN(next_run_at) AS next_run_at FROM saved_searches WHERE enabled = 1'
+        ).one().next_run_at as number | null;
+        if (next === null) {
+            await this.ctx.storage.deleteAlarm();
+        } else {
+            await this.ctx.storage.setAlarm(Math.max(next, Date.now()));
+        }
+    }
+
+    async execute(search: SavedSearch): Promise<SavedSearchRun> {
+        const ranAt = Date.now();
+        const userId = search.owner || ANONYMOUS_USER;
+        console.log('[Agent] Running saved search', search.id, ':', search.query);
+
+        // The owner may have lost access to some of the RAG instances since the search was saved
+        const denied = this.deniedRags(search);
+        if (denied.length > 0) {
+            this.ctx.storage.sql.exec('UPDATE saved_searches SET enabled = 0, updated_at = ? WHERE id = ?', Date.now(), search.id);
+            await this.scheduleAlarm();
+            console.log('[Agent] Saved search', search.id, 'disabled, owner may no longer search:', denied);
+            return this.saveRun(search.id, { ranAt, status: 'failed', answer: '', files: [], citations: [], changes: null }, null,
+                `Not allowed to search: ${denied.join(', ')}; the saved search was disabled`);
+        }
+
+        // Scheduled runs count towards the owner's quotas like any other question
+        const quota = await admitRequest(this.env, userId, search.rags);
+        if (!quota.allowed) {
+            return this.saveRun(search.id, { ranAt, status: 'skipped', answer: '', files: [], citations: [], changes: null }, null, quota.error || 'Quota exceeded');
+        }
+
+        const errors: string[] = [];
+        // Steps of the run so far, metered even when the run fails
+        const steps: TraceStep[] = [];
+        let result;
+        try {
+            result = await runAgenticSearch({
+                env: this.env,
+                ragNames: search.rags,
+                messages: [{ role: 'user', content: search.query }],
+                models: search.models,
+                retrieval: mergeRetrievalSettings(undefined, search.retrieval),
+                // A cached answer would hide new documents
+                cache: false,
+                abortSignal: AbortSignal.timeout(RUN_TIMEOUT_MS),
+                maxIterations: usageSettings(this.env).limits.maxIterations,
+                emit: (event) => {
+                    if (event.type === 'error') {
+                        errors.push(event.error);
+                    }
+                    if (event.type === 'trace-step') {
+                        steps.push(event.step);
+                    }
+                },
+            });
+        } catch (error: any) {
+            errors.push(error.message);
+        }
+        // Metered once the answers were compared, so that the judge's tokens count too
+        const usage = runUsage(steps, userId, `saved:${search.id}`, search.rags);
+        if (result) {
+            await grantDocuments(this.env, search.owner || undefined, result.files.map((file) => file.filename));
+        }
+        if (result?.interrupted) {
+            errors.push(`Timed out after ${RUN_TIMEOUT_MS / 60000} minutes`);
+        }
+        if (!result || !result.answer.trim() || result.interrupted) {
+            await recordUsage(this.env, usage);
+            return this.saveRun(search.id, { ranAt, status: 'failed', answer: '', files: [], citations: [], changes: null }, null, errors.join('; ') || 'No answer');
+        }
+
+        // Compare with the last run that produced an answer
+        const previous = this.ctx.storage.sql.exec(
+            `SELECT * FROM saved_search_runs WHERE search_id = ? AND status IN ('baseline', 'unchanged', 'changed') ORDER BY ran_at DESC, id DESC LIMIT 1`,
+            search.id
+        ).toArray().map(toRun)[0];
+        const comparison = previous
+            ? await compareRuns(createModelRegistry(this.env, search.models)('judge'), search.query, previous, result)
+            : null;
+        if (comparison) {
+            usage.usage.inputTokens += comparison.usage.inputTokens;
+            usage.usage.outputTokens += comparison.usage.outputTokens;
+            usage.usage.totalTokens += comparison.usage.totalTokens;
+        }
+        await recordUsage(this.env, usage);
+        const changes = comparison?.changes || null;
+        const changed = !!changes && (changes.newDocuments.length > 0 || changes.answerChanged);
+        const status: SavedSearchRunStatus = !previous ? 'baseline' : changed ? 'changed' : 'unchanged';
+        const run = { ranAt, status, answer: result.answer, files: result.files, citations: result.citations, changes };
+
+        let notified: boolean | null = null;
+        let error: string | null = errors.length > 0 ? errors.join('; ') : null;
+        const webhookUrl = search.webhookUrl || this.env.SAVED_SEARCH_WEBHOOK_URL;
+        if (changed && webhookUrl) {
+            const notification = await notifyWebhook(this.env, webhookUrl, search, { searchId: search.id, ...run });
+            notified = notification.ok;
+            if (notification.error) {
+                console.error('[Agent] Saved search', search.id, 'notification failed:', notification.error);
+                error = [error, notification.error].filter(Boolean).join('; ');
+            }
+        }
+
+        console.log('[Agent] Saved search', search.id, 'run:', status, changes ? `${changes.newDocuments.length} new documents, answer ${changes.answerChanged ? 'changed' : 'unchanged'}` : '');
+        return this.saveRun(search.id, run, notified, error);
+    }
+
+    // RAG instances of the search its owner may not search under the current ACCESS_POLICY, with the groups
+    // they had when they last saved it. Searches saved with auth off have no owner and are not restricted.
+    deniedRags(search: SavedSearch): string[] {
+        if (!search.owner) {
+            return [];
+        }
+        const row = this.ctx.storage.sql.exec('SELECT owner_groups FROM saved_searches WHERE id = ?', search.id).one();
+        const groups: string[] = row.owner_groups ? JSON.parse(row.owner_groups as string) : [];
+        try {
+            const access = resolveAccess({ id: search.owner, groups }, this.env);
+            return search.rags.filter((rag) => filterRags([rag], access.rags).length === 0);
+        } catch (error) {
+            console.error('[Agent] Invalid ACCESS_POLICY, saved search', search.id, 'not run:', error);
+            return search.rags;
+        }
+    }
+
+    saveRun(searchId: string, run: Pick<SavedSearchRun, 'ranAt' | 'status' | 'answer' | 'files' | 'citations' | 'changes'>, notified: boolean | null, error: string | null): SavedSearchRun {
+        const sql = this.ctx.storage.sql;
+        const inserted = sql.exec(
+            `INSERT INTO saved_search_runs (search_id, ran_at, status, answer, files, citations, changes, notified, error)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING id`,
+            searchId,
+            run.ranAt,
+            run.status,
+            run.answer,
+            JSON.stringify(run.files),
+            JSON.stringify(run.citations),
+            run.changes ? JSON.stringify(run.changes) : null,
+            notified === null ? null : notified ? 1 : 0,
+            error
+        ).one();
+        sql.exec(
+            `DELETE FROM saved_search_runs WHERE search_id = ? AND id NOT IN (
+                SELECT id FROM saved_search_runs WHERE search_id = ? ORDER BY ran_at DESC, id DESC LIMIT ?
+            )`,
+            searchId, searchId, MAX_RUNS_PER_SEARCH
+        );
+        return { id: inserted.id as number, searchId, ...run, notified, error };
+    }
+}
+
+// Saved searches with the time and status of their latest run
+const SEARCH_QUERY = `SELECT saved_searches.*, last_run.ran_at AS last_ran_at, last_run.status AS last_status
+    FROM saved_searches LEFT JOIN saved_search_runs AS last_run ON last_run.id = (
+        SELECT id FROM saved_search_runs WHERE search_id = saved_searches.id ORDER BY ran_at DESC, id DESC LIMIT 1
+    )`;
+
+function toSavedSearch(row: Record<string, SqlStorageValue>): SavedSearch {
+    return {
+        id: row.id as string,
+        owner: (row.owner as string) || null,
+        name: row.name as string,
+        query: row.query as string,
+        rags: JSON.parse(row.rags as string),
+        retrieval: JSON.parse(row.retrieval as string),
+        models: JSON.parse(row.models as string),
+        intervalHours: row.interval_hours as number,
+        webhookUrl: (row.webhook_url as string) || null,
+        enabled: row.enabled === 1,
+        nextRunAt: row.next_run_at as number,
+        createdAt: row.created_at as number,
+        updatedAt: row.updated_at as number,
+        lastRun: row.last_ran_at ? { ranAt: row.last_ran_at as number, status: row.last_status as SavedSearchRunStatus } : null,
+    };
+}
+
+function toRun(row: Record<string, SqlStorageValue>): SavedSearchRun {
+    return {
+        id: row.id as number,
+        searchId: row.search_id as string,
+        ranAt: row.ran_at as number,
+        status: row.status as SavedSearchRunStatus,
+        answer: row.answer as string,
+        files: JSON.parse(row.files as string),
+        citations: JSON.parse(row.citations as string),
+        changes: row.changes ? JSON.parse(row.changes as string) : null,
+        notified: row.notified === null ? null : row.notified === 1,
+        error: (row.error as string) || null,
+    };
+}
@@ -0,0 +1,108 @@
+import { filterRags, type AccessScope } from './auth';
+import { readJson } from './rooms-api';
+import { getSavedSearches, savedSearchCreateSchema, savedSearchUpdateSchema } from './saved-searches';
+import type { Env } from './types';
+
+const SEARCH_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function deniedRags(rags: string[] | undefined, access: AccessScope): Response | null {
+    const denied = (rags || []).filter((rag) => filterRags([rag], access.rags).length === 0);
+    return denied.length > 0
+        ? Response.json({ success: false, error: `Not allowed to search: ${denied.join(', ')}` }, { status: 403 })
+        : null;
+}
+
+// /api/saved-searches routes: queries re-run on a schedule, with change alerts sent to a webhook
+//   GET    /api/saved-searches
+//   POST   /api/saved-searches             { name, query, rags, retrieval?, models?, intervalHours?, nextRunAt?, webhookUrl?, enabled? }
+//   GET    /api/saved-searches/:id
+//   PATCH  /api/saved-searches/:id         (any of the fields above)
+//   DELETE /api/saved-searches/:id
+//   GET    /api/saved-searches/:id/runs?limit=20
+//   POST   /api/saved-searches/:id/run     (run now, outside the schedule)
+// With auth enabled, users only see and act on their own saved searches.
+export async function handleSavedSearchesRequest(request: Request, env: Env, url: URL, access: AccessScope): Promise<Response> {
+    if (!env.SavedSearches) {
+        return Response.json({ success: false, error: 'Saved searches are not configured' }, { status: 404 });
+    }
+
+    const [, , searchId, action] = url.pathname.split('/').filter(Boolean);
+    const scheduler = getSavedSearches(env);
+
+    try {
+        if (!searchId) {
+            if (request.method === 'GET') {
+                return Response.json({ success: true, savedSearches: await scheduler.listSearches(access.user?.id) });
+            }
+            if (request.method === 'POST') {
+                const { data, error } = await readJson(request, savedSearchCreateSchema);
+                if (error) {
+                    return error;
+                }
+                const denied = deniedRags(data.rags, access);
+                if (denied) {
+                    return denied;
+                }
+                const savedSearch = await scheduler.createSearch(access.user, data);
+                console.log('[Worker] Created saved search', savedSearch.id, 'every', savedSearch.intervalHours, 'hours');
+                return Response.json({ success: true, savedSearch }, { status: 201 });
+            }
+            return Response.json({ success: false, error: 'Method not allowed' }, { status: 405 });
+        }
+
+        if (!SEARCH_ID_PATTERN.test(searchId)) {
+            return Response.json({ success: false, error: 'Invalid saved search ID' }, { status: 400 });
+        }
+
+        const savedSearch = await scheduler.getSearch(searchId);
+        // Other users' saved searches are reported as missing rather than forbidden
+        if (!savedSearch || (access.user && savedSearch.owner !== access.user.id)) {
+            return Response.json({ success: false, error: 'Saved search not found' }, { status: 404 });
+        }
+
+        if (!action && request.method === 'GET') {
+            return Response.json({ success: true, savedSearch });
+        }
+
+        if (!action && request.method === 'PATCH') {
+            const { data, error } = await readJson(request, savedSearchUpdateSchema);
+            if (error) {
+                return error;
+            }
+            const denied = deniedRags(data.rags, access);
+            if (denied) {
+                return denied;
+            }
+            return Response.json({ success: true, savedSearch: await scheduler.updateSearch(searchId, data, access.user) });
+        }
+
+        if (!action && request.method === 'DELETE') {
+            await scheduler.removeSearch(searchId);
+            console.log('[Worker] Deleted saved search:', searchId);
+            return Response.json({ success: true });
+        }
+
+        if (action === 'runs' && request.method === 'GET') {
+            const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '20', 10) || 20, 1), 50);
+            return Response.json({ success: true, runs: await scheduler.listRuns(searchId, limit) });
+        }
+
+        if (action === 'run' && request.method === 'POST') {
+            const denied = deniedRags(savedSearch.rags, access);
+            if (denied) {
+                return denied;
+            }
+            // Runs over the owner's quota are recorded as skipped
+            const run = await scheduler.runNow(searchId);
+            if (run?.status === 'skipped') {
+                return Response.json({ success: false, error: run.error, run }, { status: 429 });
+            }
+            return Response.json({ success: true, run });
+        }
+
+        return Response.json({ success: false, error: 'Not found' }, { status: 404 });
+    } catch (error: any) {
+        console.error('[Worker] Saved searches API error:', error);
+        return Response.json({ success: false, error: error.message }, { status: 500 });
+    }
+}
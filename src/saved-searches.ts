@@ -0,0 +1,210 @@
+// Saved searches: schemas, the run-to-run diff and webhook notifications. The scheduler Durable Object
+// is in saved-search-store.ts.
+import { generateObject, type LanguageModel } from 'ai';
+import { z } from 'zod';
+import type { Citation } from './evidence';
+import { modelConfigSchema, type ModelConfig } from './models';
+import { retrievalSettingsUpdateSchema, type RetrievalSettingsUpdate } from './retrieval';
+import type { SavedSearchScheduler } from './saved-search-store';
+import type { SearchFile } from './search-loop';
+import { toTokenUsage, type TokenUsage } from './trace';
+import type { Env } from './types';
+
+// Default interval: weekly
+export const DEFAULT_INTERVAL_HOURS = 168;
+
+// Answers whose words overlap at least this much are not compared by the judge model
+const SAME_ANSWER_SIMILARITY = 0.9;
+
+// Webhooks must use HTTPS, except on localhost for development
+const webhookUrlSchema = z.url().refine((url) => {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' || (protocol === 'http:' && (hostname === 'localhost' || hostname === '127.0.0.1'));
+}, { message: 'webhookUrl must use https' });
+
+const savedSearchFields = {
+    name: z.string().trim().min(1).max(200),
+    query: z.string().trim().min(1).max(2000),
+    rags: z.array(z.string().min(1)).min(1).max(10),
+    retrieval: retrievalSettingsUpdateSchema,
+    models: modelConfigSchema,
+    intervalHours: z.number().int().min(1).max(24 * 31),
+    // When the next run is due (ISO 8601); later runs follow every intervalHours from there
+    nextRunAt: z.iso.datetime({ offset: true }),
+    // Falls back to SAVED_SEARCH_WEBHOOK_URL; null removes it
+    webhookUrl: webhookUrlSchema.nullable(),
+    enabled: z.boolean(),
+};
+
+export const savedSearchCreateSchema = z.object({
+    ...savedSearchFields,
+    retrieval: savedSearchFields.retrieval.optional(),
+    models: savedSearchFields.models.optional(),
+    intervalHours: savedSearchFields.intervalHours.optional(),
+    nextRunAt: savedSearchFields.nextRunAt.optional(),
+    webhookUrl: savedSearchFields.webhookUrl.optional(),
+    enabled: savedSearchFields.enabled.optional(),
+});
+
+export const savedSearchUpdateSchema = z.object(savedSearchFields).partial()
+    .refine((update) => Object.keys(update).length > 0, { message: 'Nothing to update' });
+
+export type SavedSearchInput = z.infer<typeof savedSearchCreateSchema>;
+export type SavedSearchUpdate = z.infer<typeof savedSearchUpdateSchema>;
+
+export interface SavedSearch {
+    id: string;
+    // User the search belongs to, when auth is enabled; runs are metered and granted to them
+    owner: string | null;
+    name: string;
+    query: string;
+    rags: string[];
+    retrieval: RetrievalSettingsUpdate;
+    models: ModelConfig;
+    intervalHours: number;
+    webhookUrl: string | null;
+    enabled: boolean;
+    nextRunAt: number;
+    createdAt: number;
+    updatedAt: number;
+    lastRun: { ranAt: number; status: SavedSearchRunStatus } | null;
+}
+
+// baseline: first run, nothing to compare with; skipped: over the owner's quota
+export type SavedSearchRunStatus = 'baseline' | 'unchanged' | 'changed' | 'failed' | 'skipped';
+
+export interface SavedSearchChanges {
+    newDocuments: SearchFile[];
+    removedDocuments: SearchFile[];
+    answerChanged: boolean;
+    // What changed in the answer, according to the judge model
+    answerChangeSummary?: string;
+    // Word overlap between the previous and the new answer (0 to 1)
+    answerSimilarity: number;
+}
+
+export interface SavedSearchRun {
+    id: number;
+    searchId: string;
+    ranAt: number;
+    status: SavedSearchRunStatus;
+    answer: string;
+    files: SearchFile[];
+    citations: Citation[];
+    changes: SavedSearchChanges | null;
+    // Whether the webhook accepted the notification (null when none was sent)
+    notified: boolean | null;
+    error: string | null;
+}
+
+// Files are the same document if they have the same file_id in the same instance
+function fileKey(file: SearchFile): string {
+    return `${file.rag}:${file.file_id || file.filename}`;
+}
+
+function answerWords(answer: string): Set<string> {
+    return new Set(answer.replace(/\[\d+(?:\s*,\s*\d+)*\]/g, '').toLowerCase().match(/[a-z0-9]+/g) || []);
+}
+
+function wordSimilarity(a: string, b: string): number {
+    const wordsA = answerWords(a);
+    const wordsB = answerWords(b);
+    if (wordsA.size === 0 && wordsB.size === 0) {
+        return 1;
+    }
+    let shared = 0;
+    for (const word of wordsA) {
+        if (wordsB.has(word)) {
+            shared++;
+        }
+    }
+    return shared / (wordsA.size + wordsB.size - shared);
+}
+
+// Diff a run against the previous one. Answers that differ in more than wording are confirmed
+// by the judge model, so rephrasings of the same findings don't trigger an alert. usage holds the judge's tokens.
+export async function compareRuns(model: LanguageModel, query: string, previous: Pick<SavedSearchRun, 'answer' | 'files'>, current: { answer: string; files: SearchFile[] }): Promise<{ changes: SavedSearchChanges; usage: TokenUsage }> {
+    const previousKeys = new Set(previous.files.map(fileKey));
+    const currentKeys = new Set(current.files.map(fileKey));
+    const changes: SavedSearchChanges = {
+        newDocuments: current.files.filter((file) => !previousKeys.has(fileKey(file))),
+        removedDocuments: previous.files.filter((file) => !currentKeys.has(fileKey(file))),
+        answerChanged: false,
+        answerSimilarity: wordSimilarity(previous.answer, current.answer),
+    };
+    let usage = toTokenUsage(undefined);
+    if (changes.answerSimilarity >= SAME_ANSWER_SIMILARITY) {
+        return { changes, usage };
+    }
+
+    try {
+        const { object, usage: judgeUsage } = await generateObject({
+            model: model,
+            schema: z.object({
+                materiallyChanged: z.boolean().describe('True if the new answer states different facts, figures, dates or conclusions, or adds or drops any'),
+                summary: z.string().describe('One or two sentences on what changed, empty if nothing material did'),
+            }),
+            prompt: `A saved search is re-run on a schedule to detect new information. Compare its previous and new answers.
+
+Question: ${query}
+
+Previous Answer:
+${previous.answer}
+
+New Answer:
+${current.answer}
+
+Task: Decide whether the new answer changed materially: different facts, figures, dates or conclusions, or information added or dropped. Differences in wording, order or citation markers alone are not material.`,
+        });
+        usage = toTokenUsage(judgeUsage);
+        changes.answerChanged = object.materiallyChanged;
+        if (object.materiallyChanged && object.summary.trim()) {
+            changes.answerChangeSummary = object.summary.trim();
+        }
+    } catch (error) {
+        // Better a spurious alert than a missed change
+        console.error('[Agent] Saved search answer comparison failed, treating the answer as changed:', error);
+        changes.answerChanged = true;
+    }
+    return { changes, usage };
+}
+
+async function hmacSha256(secret: string, body: string): Promise<string> {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+    return Array.from(new Uint8Array(signature)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// POST a change alert to the webhook, signed with SAVED_SEARCH_WEBHOOK_SECRET if set; returns whether it was accepted
+export async function notifyWebhook(env: Env, url: string, search: SavedSearch, run: Omit<SavedSearchRun, 'id' | 'notified' | 'error'>): Promise<{ ok: boolean, error?: string }> {
+    const body = JSON.stringify({
+        type: 'saved-search.changed',
+        savedSearch: { id: search.id, name: search.name, query: search.query, rags: search.rags },
+        ranAt: new Date(run.ranAt).toISOString(),
+        newDocuments: run.changes?.newDocuments || [],
+        removedDocuments: run.changes?.removedDocuments || [],
+        answerChanged: run.changes?.answerChanged || false,
+        ...(run.changes?.answerChangeSummary ? { answerChangeSummary: run.changes.answerChangeSummary } : {}),
+        answer: run.answer,
+        citations: run.citations,
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (env.SAVED_SEARCH_WEBHOOK_SECRET) {
+        headers['X-Signature-256'] = `sha256=${await hmacSha256(env.SAVED_SEARCH_WEBHOOK_SECRET, body)}`;
+    }
+
+    try {
+        const response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(10000) });
+        if (!response.ok) {
+            return { ok: false, error: `Webhook answered ${response.status}` };
+        }
+        return { ok: true };
+    } catch (error: any) {
+        return { ok: false, error: `Webhook failed: ${error.message}` };
+    }
+}
+
+export function getSavedSearches(env: Env): DurableObjectStub<SavedSearchScheduler> {
+    return env.SavedSearches.get(env.SavedSearches.idFromName('global'));
+}
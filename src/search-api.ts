@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { filterRags, grantDocuments, type AccessScope } from './auth';
+import { modelConfigSchema } from './models';
+import { outputFormatSchema } from './output-modes';
+import { mergeRetrievalSettings, retrievalSettingsUpdateSchema } from './retrieval';
+import { runAgenticSearch, type SearchRunResult } from './search-loop';
+import type { TraceStep } from './trace';
+import { admitRequest, ANONYMOUS_USER, recordUsage, runUsage, usageSettings } from './usage';
+import type { Env } from './types';
+
+const searchRequestSchema = z.object({
+    query: z.string().min(1),
+    // One instance (rag) or several (rags), whose results are fused
+    rag: z.string().min(1).optional(),
+    rags: z.array(z.string().min(1)).min(1).optional(),
+    history: z.array(z.object({
+        role: z.enum(['user', 'assistant']),
+        content: z.string(),
+    })).optional(),
+    models: modelConfigSchema.optional(),
+    retrieval: retrievalSettingsUpdateSchema.optional(),
+    // Set to false to bypass the answer cache
+    cache: z.boolean().optional(),
+}).refine((body) => body.rag || body.rags, { message: 'Either rag or rags is required' })
+    // outputMode (markdown, table, timeline, json) and outputSchema
+    .and(outputFormatSchema);
+
+type SearchRequest = z.infer<typeof searchRequestSchema>;
+
+function requestRags(body: SearchRequest): string[] {
+    return body.rags || [body.rag];
+}
+
+function toResponseBody(result: SearchRunResult) {
+    return {
+        answer: result.answer,
+        originalQuery: result.originalQuery,
+        rewrittenQuery: result.rewrittenQuery,
+        iterations: result.iterations,
+        searches: result.searches,
+        files: result.files,
+        citations: result.citations,
+        trace: result.trace,
+        ...(result.cached ? { cached: result.cached } : {}),
+        ...(result.structured ? { structured: result.structured } : {}),
+    };
+}
+
+// POST /api/search - run the agentic loop without a WebSocket or a room
+export async function handleSearchRequest(request: Request, env: Env, ctx: ExecutionContext, access: AccessScope): Promise<Response> {
+    let body: SearchRequest;
+    try {
+        const parsed = searchRequestSchema.safeParse(await request.json());
+        if (!parsed.success) {
+            return Response.json({ success: false, error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+        }
+        body = parsed.data;
+    } catch (error: any) {
+        return Response.json({ success: false, error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const messages = [
+        ...(body.history || []),
+        { role: 'user', content: body.query },
+    ];
+
+    const denied = requestRags(body).filter((rag) => filterRags([rag], access.rags).length === 0);
+    if (denied.length > 0) {
+        return Response.json({ success: false, error: `Not allowed to search: ${denied.join(', ')}` }, { status: 403 });
+    }
+
+    const userId = access.user?.id || ANONYMOUS_USER;
+    const quota = await admitRequest(env, userId, requestRags(body));
+    if (!quota.allowed) {
+        return Response.json(
+            { success: false, error: quota.error, retryAfter: quota.retryAfterSeconds },
+            { status: 429, headers: quota.retryAfterSeconds ? { 'Retry-After': String(quota.retryAfterSeconds) } : {} }
+        );
+    }
+
+    console.log('[Worker] API search on', requestRags(body), 'for:', body.query);
+
+    if ((request.headers.get('Accept') || '').includes('text/event-stream')) {
+        return streamSearch(body, messages, env, ctx, access);
+    }
+
+    const errors: any[] = [];
+    // Steps of the run so far, metered even when the run fails
+    const steps: TraceStep[] = [];
+    try {
+        const result = await runAgenticSearch({
+            env,
+            ragNames: requestRags(body),
+            messages,
+            models: body.models,
+            retrieval: mergeRetrievalSettings(undefined, body.retrieval),
+            cache: body.cache,
+            output: { outputMode: body.outputMode, outputSchema: body.outputSchema },
+            maxIterations: usageSettings(env).limits.maxIterations,
+            emit: (event) => {
+                if (event.type === 'error') {
+                    errors.push(event.error);
+                }
+                if (event.type === 'trace-step') {
+                    steps.push(event.step);
+                }
+            },
+        });
+        await grantDocuments(env, access.user?.id, result.files.map((file) => file.filename));
+
+        return Response.json({
+            success: errors.length === 0,
+            ...toResponseBody(result),
+            ...(errors.length > 0 ? { errors: errors.map((error) => String(error?.message || error)) } : {}),
+        });
+    } catch (error: any) {
+        console.error('[Worker] API search error:', error);
+        return Response.json({ success: false, error: error.message }, { status: 500 });
+    } finally {
+        await recordUsage(env, runUsage(steps, userId, '', requestRags(body)));
+    }
+}
+
+// Same loop, with every protocol event sent as a Server-Sent Event
+function streamSearch(body: SearchRequest, messages: any[], env: Env, ctx: ExecutionContext, access: AccessScope): Response {
+    const { readable, writable } = new TransformStream();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+
+    const send = (type: string, data: any) => {
+        writer.write(encoder.encode(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`))
+            .catch((error) => console.error('[Worker] SSE write error:', error));
+    };
+
+    const run = async () => {
+        const steps: TraceStep[] = [];
+        try {
+            const result = await runAgenticSearch({
+                env,
+                ragNames: requestRags(body),
+                messages,
+                models: body.models,
+                retrieval: mergeRetrievalSettings(undefined, body.retrieval),
+                cache: body.cache,
+                output: { outputMode: body.outputMode, outputSchema: body.outputSchema },
+                maxIterations: usageSettings(env).limits.maxIterations,
+                emit: (event) => {
+                    if (event.type === 'trace-step') {
+                        steps.push(event.step);
+                    }
+                    send(event.type, event);
+                },
+            });
+            await grantDocuments(env, access.user?.id, result.files.map((file) => file.filename));
+
+            if (result.citations.length > 0) {
+                send('citations', { citations: result.citations });
+            }
+            if (result.files.length > 0) {
+                send('files', { files: result.files });
+            }
+            send('finish', toResponseBody(result));
+        } catch (error: any) {
+            console.error('[Worker] API search stream error:', error);
+            send('error', { error: error.message });
+        } finally {
+            await recordUsage(env, runUsage(steps, access.user?.id || ANONYMOUS_USER, '', requestRags(body)));
+            await writer.close().catch(() => {
+                // Client already disconnected
+            });
+        }
+    };
+
+    ctx.waitUntil(run());
+
+    return new Response(readable, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        },
+    });
+}
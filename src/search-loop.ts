@@ -0,0 +1,769 @@
+import {streamText, streamObject, generateText, generateObject, tool, stepCountIs, type LanguageModelUsage} from 'ai';
+import { z } from 'zod';
+import { answerCacheSettings, createCacheKey, getAnswerCache, type CacheHit, type CacheKey } from './answer-cache';
+import { documentPreviewUrl, EvidenceStore, type Citation } from './evidence';
+import { memorySection, memorySettings, relevantFacts, type ConversationMemory } from './memory';
+import { createModelRegistry, type ModelConfig } from './models';
+import { MARKDOWN_OUTPUT, partialStructuredAnswer, structuredInstructions, structuredSchema, structuredToMarkdown, type OutputFormat, type OutputMode, type StructuredAnswer } from './output-modes';
+import { loadFilePenalties } from './feedback';
+import { hybridSearch, hybridSearchQueries, workersAiScorer, type ChunkScorer } from './hybrid-retrieval';
+import { planSubQuestions, type SubQuestion } from './query-planner';
+import { DEFAULT_RETRIEVAL_SETTINGS, type RetrievalSettings } from './retrieval';
+import { TraceRecorder, toTokenUsage, type SearchTrace, type SubQuestionCoverage, type TraceStep } from './trace';
+import type { Env } from './types';
+
+export interface SearchFile {
+    filename: string;
+    file_id: string;
+    // AutoRAG instance the file was found in
+    rag: string;
+    // Preview of the best-scoring chunk matched in this file
+    previewUrl?: string;
+    score?: number;
+}
+
+export interface SearchTraceEntry {
+    iteration: number;
+    query: string;
+    rags: string[];
+    count: number;
+    files: string[];
+}
+
+// Events emitted while the loop runs, in the same shape as the WebSocket protocol
+export type SearchEvent =
+    | { type: 'query-rewrite'; original: string; rewritten: string }
+    | { type: 'cache-hit'; tier: 'exact' | 'semantic'; similarity: number; cachedQuery: string; cachedAt: number }
+    | { type: 'search-start'; query: string; rag?: string }
+    | { type: 'text-delta'; textDelta: string }
+    // Structured answers (outputMode other than markdown): partial objects while streaming, then the validated object
+    | { type: 'object-delta'; mode: OutputMode; object: any }
+    | { type: 'object'; mode: OutputMode; object: any }
+    | { type: 'trace-step'; step: TraceStep }
+    | { type: 'error'; error: string };
+
+export interface SearchRunOptions {
+    env: Env;
+    // AutoRAG instances to search; results from several instances are fused
+    ragNames: string[];
+    // Conversation so far; the last entry is the user query being answered
+    messages: any[];
+    emit: (event: SearchEvent) => void;
+    // Model overrides per role, on top of the env configuration
+    models?: ModelConfig;
+    retrieval?: RetrievalSettings;
+    // Called before every AutoRAG search, e.g. to update usage counters
+    onSearch?: (query: string) => void;
+    // Set to false to skip the shared answer cache (both lookup and store)
+    cache?: boolean;
+    // Aborts the run; the answer streamed so far is returned with interrupted set
+    abortSignal?: AbortSignal;
+    // Returns the hints the user sent since the last call, applied from the next iteration on
+    takeSteeringHints?: () => string[];
+    // Summary and established facts of the conversation so far, given to the rewrite, extraction and synthesis prompts
+    memory?: ConversationMemory;
+    // Markdown (default) or a structured answer: table, timeline or JSON following a schema
+    output?: OutputFormat;
+    // Most search iterations before the answer is written (default 5)
+    maxIterations?: number;
+    // Semantic scorer of the hybrid ranking; defaults to the Workers AI rerankingModel when localReranking
+    // is on. null ranks on the AutoRAG vector scores.
+    scorer?: ChunkScorer | null;
+}
+
+export interface SearchRunResult {
+    answer: string;
+    originalQuery: string;
+    rewrittenQuery: string;
+    iterations: number;
+    searches: SearchTraceEntry[];
+    files: SearchFile[];
+    citations: Citation[];
+    // Every step of the run with timings and token usage
+    trace: SearchTrace;
+    // Set when the answer was replayed from the answer cache
+    cached?: { tier: 'exact' | 'semantic'; similarity: number; query: string; createdAt: number };
+    // Set when the run was cancelled; answer holds whatever was streamed before
+    interrupted?: boolean;
+    // The validated object of a structured answer; answer holds its Markdown rendering
+    structured?: StructuredAnswer;
+}
+
+// Agentic search loop: rewrite the query, search and extract knowledge until it is
+// sufficient, then stream the final answer. Shared by the WebSocket agent and the HTTP API.
+export async function runAgenticSearch(options: SearchRunOptions): Promise<SearchRunResult> {
+    const { env, ragNames, messages, emit, abortSignal } = options;
+    const models = createModelRegistry(env, options.models);
+    const retrieval = options.retrieval || DEFAULT_RETRIEVAL_SETTINGS;
+    const output = options.output || MARKDOWN_OUTPUT;
+    const scorer = options.scorer !== undefined
+        ? options.scorer
+        : retrieval.localReranking ? workersAiScorer(env, retrieval.rerankingModel) : null;
+    const allFiles = new Map<string, SearchFile>();
+    const evidence = new EvidenceStore();
+    const searches: SearchTraceEntry[] = [];
+    const trace = new TraceRecorder((step) => emit({ type: 'trace-step', step }));
+    const accumulatedKnowledge: string[] = [];
+    const maxIterations = options.maxIterations || 5;
+    let iteration = 0;
+    // Answers built on failed searches may be incomplete, so they are not cached
+    let searchFailed = false;
+    // Steering hints from the user, kept for the rest of the run
+    const steeringHints: string[] = [];
+    const interrupted = () => abortSignal?.aborted === true;
+    // Model calls resolve to null instead of throwing once the run is cancelled
+    const unlessAborted = (error: any) => {
+        if (interrupted()) {
+            return null;
+        }
+        throw error;
+    };
+
+    // Get the user's original query from the last message
+    const userQuery = messages[messages.length - 1].content as string;
+    let currentSearchQuery = userQuery;
+
+    // Conversation memory relevant to a query, as a prompt section
+    const factsPerPrompt = memorySettings(env).factsPerPrompt;
+    const memoryFor = (query: string) => memorySection(options.memory, query, factsPerPrompt);
+
+    // Query rewriting: If there are previous user messages (or older ones summarized in memory), consolidate them into a single query
+    const previousUserMessages = messages
+        .slice(0, -1) // Exclude the current message
+        .filter((msg: any) => msg.role === 'user')
+        .map((msg: any) => msg.content as string);
+
+    if (previousUserMessages.length > 0 || options.memory?.summary) {
+        console.log('[Agent] Found', previousUserMessages.length, 'previous user messages, rewriting query...');
+
+        try {
+            const rewriteStart = trace.now();
+            const rewriteResult = await generateText({
+                model: models('rewriter'),
+                abortSignal,
+                prompt: `You are a query rewriting assistant. Your task is to combine multiple related user queries into a single, comprehensive query that captures the user's current intent.
+
+${memoryFor(userQuery)}Previous user queries (in chronological order):
+${previousUserMessages.length > 0 ? previousUserMessages.map((q, i) => `${i + 1}. ${q}`).join('\n') : '(only those in the summary)'}
+
+Current user query:
+${userQuery}
+
+Task: Rewrite this into a single, clear, and comprehensive query that represents what the user is actually asking for now, considering the conversation context. The rewritten query should be self-contained and capture the full intent.
+
+Important: Focus on the user's CURRENT intent. If the current query builds upon or modifies previous queries, make sure the rewritten query reflects the current state of the question, not the history.
+
+Provide ONLY the rewritten query, nothing else.`,
+            });
+
+            currentSearchQuery = rewriteResult.text.trim();
+            trace.record(rewriteStart, {
+                kind: 'rewrite',
+                durationMs: trace.now() - rewriteStart,
+                original: userQuery,
+                rewritten: currentSearchQuery,
+                usage: toTokenUsage(rewriteResult.totalUsage)
+            });
+            console.log('[Agent] Query rewritten from:', userQuery);
+            console.log('[Agent] To:', currentSearchQuery);
+
+            // Notify the client about the query rewrite
+            emit({
+                type: 'query-rewrite',
+                original: userQuery,
+                rewritten: currentSearchQuery
+            });
+        } catch (error) {
+            console.error('[Agent] Error rewriting query, using original:', error);
+            // Fall back to original query on error
+        }
+    }
+
+    const rewrittenQuery = currentSearchQuery;
+
+    // Memory given to the extraction and synthesis prompts
+    const memoryContext = memoryFor(rewrittenQuery);
+    if (memoryContext) {
+        trace.record(trace.now(), {
+            kind: 'memory',
+            durationMs: 0,
+            summary: !!options.memory?.summary,
+            facts: relevantFacts(options.memory!, rewrittenQuery, factsPerPrompt).map((fact) => fact.text)
+        });
+    }
+
+    // Answer cache: replay a recent answer to the same (or a near-identical) question
+    const cacheSettings = answerCacheSettings(env);
+    let cacheKey: CacheKey | null = null;
+    let cacheHit: CacheHit | null = null;
+    // Only Markdown answers are cached. The cache is shared by every room, so the memory that applies to the
+    // question is part of the key, and answers shaped by steering hints are not stored (below).
+    if (cacheSettings.enabled && options.cache !== false && output.outputMode === 'markdown' && ragNames.length > 0 && !interrupted()) {
+        const cacheStart = trace.now();
+        try {
+            cacheKey = await createCacheKey(env, ragNames, rewrittenQuery, retrieval, options.models, memoryContext);
+            cacheHit = await getAnswerCache(env).lookup(cacheKey, cacheSettings.similarityThreshold);
+            trace.record(cacheStart, {
+                kind: 'cache',
+                durationMs: trace.now() - cacheStart,
+                hit: !!cacheHit,
+                ...(cacheHit ? { tier: cacheHit.tier, similarity: cacheHit.similarity, cachedQuery: cacheHit.query } : {})
+            });
+        } catch (error) {
+            console.error('[Agent] Answer cache lookup failed:', error);
+        }
+    }
+
+    if (cacheHit) {
+        console.log(`[Agent] Answer cache hit (${cacheHit.tier}, similarity ${cacheHit.similarity.toFixed(3)}):`, cacheHit.query);
+        emit({
+            type: 'cache-hit',
+            tier: cacheHit.tier,
+            similarity: cacheHit.similarity,
+            cachedQuery: cacheHit.query,
+            cachedAt: cacheHit.createdAt
+        });
+
+        // Stream the cached answer word by word, like a generated one
+        for (const textDelta of cacheHit.answer.match(/\s*\S+\s*/g) || []) {
+            emit({ type: 'text-delta', textDelta });
+        }
+
+        return {
+            answer: cacheHit.answer,
+            originalQuery: userQuery,
+            rewrittenQuery: rewrittenQuery,
+            iterations: 0,
+            searches: [],
+            files: cacheHit.files,
+            citations: cacheHit.citations,
+            trace: trace.finish(rewrittenQuery, 0),
+            cached: { tier: cacheHit.tier, similarity: cacheHit.similarity, query: cacheHit.query, createdAt: cacheHit.createdAt }
+        };
+    }
+
+    // Query planning: break the query into sub-questions, each searched on its own in the first iteration
+    let subQuestions: SubQuestion[] = [];
+    if (retrieval.decomposeQuery && ragNames.length > 0 && !interrupted()) {
+        const planStart = trace.now();
+        const plan = await planSubQuestions(models('planner'), rewrittenQuery, retrieval.maxSubQuestions, memoryContext, abortSignal).catch(unlessAborted);
+        if (plan) {
+            subQuestions = plan.subQuestions;
+            trace.record(planStart, {
+                kind: 'plan',
+                durationMs: trace.now() - planStart,
+                subQuestions,
+                usage: toTokenUsage(plan.usage || undefined)
+            });
+            console.log('[Agent] Sub-questions:', subQuestions.map((subQuestion) => subQuestion.question));
+        }
+    }
+    // Chunks retrieved for each sub-question, reported with its coverage
+    const subQuestionChunks = subQuestions.map(() => 0);
+
+    // Files down-weighted or excluded because of repeated negative feedback
+    const penalties = await loadFilePenalties(env, ragNames);
+
+    console.log('[Agent] Starting agentic loop with search query:', currentSearchQuery);
+
+    // Define search function (not a tool anymore, called directly). Several queries (the sub-questions)
+    // are searched together and their chunks ranked per query.
+    const performSearch = async (queries: string[], rag?: string) => {
+        const query = queries.join(' | ');
+        console.log(`[Agent] Searching for: "${query}"`, rag ? `in ${rag}` : '');
+
+        // Check if RAG is selected
+        if (ragNames.length === 0) {
+            const errorMsg = 'No RAG instance selected. Please select a RAG from the dropdown.';
+            console.error('[Agent]', errorMsg);
+            throw new Error(errorMsg);
+        }
+
+        if (rag && !ragNames.includes(rag)) {
+            return {
+                success: false,
+                error: `Unknown RAG instance "${rag}"`,
+                message: `Available instances: ${ragNames.join(', ')}`,
+                results: []
+            };
+        }
+
+        // Notify the client that a search is starting
+        emit({
+            type: 'search-start',
+            query: query,
+            ...(rag ? { rag: rag } : {})
+        });
+
+        queries.forEach((subQuery) => options.onSearch?.(subQuery));
+
+        const targets = rag ? [rag] : ragNames;
+        const searchStart = trace.now();
+        const subQueries = queries.length > 1 ? { subQueries: queries } : {};
+        const calls = hybridSearchQueries(queries, retrieval).length;
+        const autoragCalls = Object.fromEntries(targets.map((target) => [target, calls]));
+        let excluded = {};
+
+        try {
+            const searchResults = await hybridSearch(env, targets, queries, retrieval, scorer, penalties);
+            if (searchResults.errors.length > 0) {
+                searchFailed = true;
+            }
+            if (searchResults.excluded.length > 0) {
+                console.log('[Agent] Excluded for negative feedback:', searchResults.excluded);
+                excluded = { excluded: searchResults.excluded };
+            }
+
+            if (searchResults.chunks.length === 0) {
+                searches.push({ iteration, query, rags: targets, count: 0, files: [] });
+                trace.record(searchStart, { kind: 'search', durationMs: trace.now() - searchStart, iteration, query, rag, ...subQueries, scorer: searchResults.scorer, ...excluded, results: [], autoragCalls });
+                return {
+                    success: true,
+                    found: false,
+                    message: 'No relevant documents found for this query.',
+                    count: 0,
+                    results: []
+                };
+            }
+
+            const formattedResults = searchResults.chunks.map((chunk, index) => {
+                // Register the chunk so the answer can cite it by marker
+                const marker = evidence.add({
+                    rag: chunk.rag,
+                    filename: chunk.filename,
+                    file_id: chunk.file_id,
+                    score: chunk.score,
+                    text: chunk.text
+                });
+
+                return {
+                    rank: index + 1,
+                    evidence: `[${marker}]`,
+                    rag: chunk.rag,
+                    filename: chunk.filename,
+                    score: chunk.score,
+                    keywordScore: chunk.keywordScore,
+                    ...(chunk.rerankScore !== undefined ? { rerankScore: chunk.rerankScore } : {}),
+                    ...(chunk.penalty !== undefined ? { penalty: chunk.penalty } : {}),
+                    // Queries (by position) the chunk was retrieved for
+                    ...(queries.length > 1 ? { queries: chunk.queries.map((position) => position + 1) } : {}),
+                    content: chunk.text.substring(0, retrieval.chunkLength),
+                    file_id: chunk.file_id
+                };
+            });
+
+            // Collect file metadata, linking each file to its best-scoring chunk
+            searchResults.chunks.forEach((chunk) => {
+                const key = `${chunk.rag}:${chunk.filename}`;
+                const existing = allFiles.get(key);
+                if (chunk.filename && (!existing || chunk.score > (existing.score ?? 0))) {
+                    allFiles.set(key, {
+                        filename: chunk.filename,
+                        file_id: chunk.file_id,
+                        rag: chunk.rag,
+                        previewUrl: documentPreviewUrl(chunk.filename, chunk.text),
+                        score: chunk.score
+                    });
+                }
+            });
+
+            searches.push({
+                iteration,
+                query,
+                rags: targets,
+                count: formattedResults.length,
+                files: formattedResults.map((result) => result.filename)
+            });
+            trace.record(searchStart, {
+                kind: 'search',
+                durationMs: trace.now() - searchStart,
+                iteration,
+                query,
+                rag,
+                ...subQueries,
+                scorer: searchResults.scorer,
+                ...excluded,
+                results: formattedResults.map((result) => ({
+                    evidence: result.evidence,
+                    rag: result.rag,
+                    filename: result.filename,
+                    file_id: result.file_id,
+                    score: result.score,
+                    keywordScore: result.keywordScore,
+                    ...(result.rerankScore !== undefined ? { rerankScore: result.rerankScore } : {}),
+                    ...(result.penalty !== undefined ? { penalty: result.penalty } : {})
+                })),
+                autoragCalls,
+                ...(searchResults.errors.length > 0 ? { error: searchResults.errors.map((e) => `${e.rag}: ${e.message}`).join('; ') } : {})
+            });
+
+            const searchQueries = searchResults.searches[0]?.searchQueries || {};
+            const toolResult = {
+                success: true,
+                found: true,
+                count: formattedResults.length,
+                search_query: queries.length === 1 && targets.length === 1 ? searchQueries[targets[0]] || query : query,
+                searched_instances: targets,
+                ...(searchResults.errors.length > 0 ? { failed_instances: searchResults.errors } : {}),
+                results: formattedResults
+            };
+            console.log('[Agent] Returning results:', toolResult.count, 'documents found');
+            return toolResult;
+        } catch (error: any) {
+            console.error('[Agent] Search error:', error);
+            searchFailed = true;
+            trace.record(searchStart, { kind: 'search', durationMs: trace.now() - searchStart, iteration, query, rag, ...subQueries, results: [], autoragCalls, error: error.message });
+            return {
+                success: false,
+                error: 'Failed to search the database',
+                message: error.message,
+                results: []
+            };
+        }
+    };
+
+    // Define search as a tool for the LLM
+    const searchTool = tool({
+        description: ragNames.length > 1
+            ? `Search through document databases. Use this tool to find relevant information from the indexed documents. By default all instances (${ragNames.join(', ')}) are searched and their results merged; set rag to search only one of them.`
+            : 'Search through a document database. Use this tool to find relevant information from the indexed documents.',
+        inputSchema: z.object({
+            query: z.string().describe('The search query to find relevant documents'),
+            rag: z.string().optional().describe(`Only search this RAG instance (one of: ${ragNames.join(', ')}). Omit to search all of them.`),
+        }),
+        execute: async ({ query, rag }) => {
+            return await performSearch([query], rag);
+        },
+    });
+
+    // User guidance for the prompts, if the user steered the run
+    const steeringSection = () => steeringHints.length > 0 ? `User Guidance (sent while the search was running, follow it):
+${steeringHints.map((hint) => `- ${hint}`).join('\n')}
+
+` : '';
+
+    // Apply the hints the user sent since they were last taken
+    const applySteeringHints = () => {
+        for (const hint of options.takeSteeringHints?.() || []) {
+            steeringHints.push(hint);
+            trace.record(trace.now(), { kind: 'steer', durationMs: 0, iteration, hint });
+            console.log('[Agent] Steering hint:', hint);
+        }
+    };
+
+    // Agentic loop
+    while (!interrupted()) {
+        iteration++;
+        console.log(`[Agent] Iteration ${iteration}/${maxIterations}`);
+
+        applySteeringHints();
+
+        // Step 1: The first iteration searches every sub-question of the plan up front. A plan of a single
+        // sub-question is the query itself, which the search tool covers.
+        let plannedSection = '';
+        if (iteration === 1 && subQuestions.length > 1) {
+            const planned: any = await performSearch(subQuestions.map((subQuestion) => subQuestion.searchQuery));
+            for (const result of planned.results) {
+                for (const position of result.queries || [1]) {
+                    subQuestionChunks[position - 1]++;
+                }
+            }
+            plannedSection = `Sub-Questions:
+${subQuestions.map((subQuestion, index) => `${index + 1}. ${subQuestion.question}`).join('\n')}
+
+Search Results for the Sub-Questions (queries lists the sub-questions each result was found for):
+${JSON.stringify(planned, null, 2)}
+
+`;
+        }
+
+        // Step 2: Let the LLM search and generate knowledge entries using tools
+        console.log('[Agent] Generating knowledge from search results...');
+        const extractionStart = trace.now();
+        const knowledgeGeneration = await generateText({
+            model: models('extractor'),
+            abortSignal,
+            tools: {
+                searchDocuments: searchTool,
+            },
+            stopWhen: stepCountIs(5),
+            prompt: `You are gathering information to answer a user's query.
+
+User Original Query: ${userQuery}
+${userQuery !== currentSearchQuery ? `Rewritten Search Query: ${currentSearchQuery}` : ''}
+
+${iteration === 1 ? `Current Search Query: ${currentSearchQuery}` : `Next Search Query: ${currentSearchQuery}`}
+
+${plannedSection}${accumulatedKnowledge.length > 0 ? `Previously Accumulated Knowledge:
+${accumulatedKnowledge.join('\n\n')}
+
+` : ''}${memoryContext}${steeringSection()}Task:
+1. ${plannedSection ? 'Use the searchDocuments tool to search for anything the search results above leave open' : 'Use the searchDocuments tool to search documents with any query related to the user question'}
+2. Analyze the search results
+3. Continue using the searchDocuments tool with different queries to get more knowledge (max 3 times)
+3. Extract 3-5 key knowledge entries that are relevant to answering the user's query
+4. Format each knowledge entry as a clear, concise bullet point ending with the evidence marker(s) of the search results it comes from, exactly as given (e.g. [3] or [3][7])
+
+Provide your knowledge extraction.`,
+        }).catch(unlessAborted);
+        if (!knowledgeGeneration) {
+            break;
+        }
+
+        const newKnowledge = knowledgeGeneration.text;
+        trace.record(extractionStart, {
+            kind: 'extraction',
+            durationMs: trace.now() - extractionStart,
+            iteration,
+            query: currentSearchQuery,
+            knowledge: newKnowledge,
+            usage: toTokenUsage(knowledgeGeneration.totalUsage)
+        });
+        if (newKnowledge.trim()) {
+            accumulatedKnowledge.push(newKnowledge);
+            console.log('[Agent] Knowledge extracted:', newKnowledge.substring(0, 200) + '...');
+        } else {
+            console.log('[Agent] No knowledge extracted, breaking loop');
+            break;
+        }
+
+        // Step 3: Evaluate if we have enough knowledge (structured output)
+        console.log('[Agent] Evaluating knowledge sufficiency...');
+        const decisionStart = trace.now();
+        const decision = await generateObject({
+            model: models('judge'),
+            abortSignal,
+            schema: z.object({
+                isKnowledgeEnough: z.boolean().describe('Whether the accumulated knowledge is sufficient to fully answer the user query'),
+                nextSearchQuery: z.string().optional().describe('If more information is needed, provide the next search query to explore'),
+                coverage: z.array(z.object({
+                    subQuestion: z.number().int().describe('Number of the sub-question'),
+                    covered: z.boolean().describe('Whether the accumulated knowledge answers this sub-question'),
+                    missing: z.string().optional().describe('What is still missing for this sub-question, if not covered'),
+                })).describe('One entry per sub-question, if sub-questions are listed'),
+            }),
+            prompt: `You are evaluating whether accumulated knowledge is sufficient to answer a user query.
+
+User Query: ${userQuery}
+
+${subQuestions.length > 1 ? `Sub-Questions (the query is answered when all of them are):
+${subQuestions.map((subQuestion, index) => `${index + 1}. ${subQuestion.question}`).join('\n')}
+
+` : ''}Accumulated Knowledge (${iteration} search${iteration > 1 ? 'es' : ''}):
+${accumulatedKnowledge.join('\n\n')}
+
+${steeringSection()}Task: Determine if this knowledge is sufficient to provide a comprehensive answer. If not, suggest what additional information to search for.${subQuestions.length > 1 ? ' Report for each sub-question whether the knowledge answers it, and what is missing if not.' : ''}
+
+Consider:
+- Is the query fully addressed?
+- Are there gaps or missing details?
+- Would additional context help?
+
+Provide your evaluation.`,
+        }).catch(unlessAborted);
+        if (!decision) {
+            break;
+        }
+
+        console.log('[Agent] Decision:', decision.object);
+        // Sub-questions the judge left out are reported as covered only if the knowledge is sufficient
+        const coverage: SubQuestionCoverage[] = subQuestions.length > 1 ? subQuestions.map((subQuestion, index) => {
+            const judged = decision.object.coverage.find((entry) => entry.subQuestion === index + 1);
+            const covered = judged ? judged.covered : decision.object.isKnowledgeEnough;
+            return {
+                subQuestion: subQuestion.question,
+                covered,
+                ...(!covered && judged?.missing ? { missing: judged.missing } : {}),
+                chunks: subQuestionChunks[index]
+            };
+        }) : [];
+        trace.record(decisionStart, {
+            kind: 'decision',
+            durationMs: trace.now() - decisionStart,
+            iteration,
+            isKnowledgeEnough: decision.object.isKnowledgeEnough,
+            nextSearchQuery: decision.object.nextSearchQuery,
+            ...(coverage.length > 0 ? { coverage } : {}),
+            usage: toTokenUsage(decision.usage)
+        });
+
+        // Step 4: Check stopping conditions
+        if (decision.object.isKnowledgeEnough || iteration >= maxIterations) {
+            console.log('[Agent] Loop complete. Sufficient knowledge:', decision.object.isKnowledgeEnough, 'Max iterations:', iteration >= maxIterations);
+            break;
+        }
+
+        // Continue with next search query, or the first sub-question still open
+        const uncovered = coverage.findIndex((entry) => !entry.covered);
+        const nextSearchQuery = decision.object.nextSearchQuery || (uncovered >= 0 ? subQuestions[uncovered].searchQuery : undefined);
+        if (nextSearchQuery) {
+            currentSearchQuery = nextSearchQuery;
+            console.log('[Agent] Continuing with next query:', currentSearchQuery);
+        } else {
+            console.log('[Agent] No next query provided, breaking loop');
+            break;
+        }
+    }
+
+    if (interrupted()) {
+        console.log('[Agent] Run cancelled before the final answer');
+        return {
+            answer: '',
+            originalQuery: userQuery,
+            rewrittenQuery: rewrittenQuery,
+            iterations: iteration,
+            searches: searches,
+            files: Array.from(allFiles.values()),
+            citations: [],
+            trace: trace.finish(rewrittenQuery, iteration),
+            interrupted: true
+        };
+    }
+
+    // Hints sent during the last iteration still shape the answer
+    applySteeringHints();
+
+    // Final step: Stream comprehensive answer using all accumulated knowledge
+    console.log('[Agent] Streaming final answer with accumulated knowledge...', output.outputMode !== 'markdown' ? `(${output.outputMode})` : '');
+    const synthesisStart = trace.now();
+    const answerContext = `You are answering a user's question using accumulated knowledge from documents.
+
+User Query: ${userQuery}
+
+Accumulated Knowledge from ${iteration} search${iteration > 1 ? 'es' : ''}:
+${accumulatedKnowledge.join('\n\n')}
+
+${memoryContext}${steeringSection()}`;
+
+    // Collect the complete response text
+    let completeResponse = '';
+    let streamFailed = false;
+    let structured: StructuredAnswer | undefined;
+    let synthesisUsage: LanguageModelUsage | undefined;
+
+    if (output.outputMode !== 'markdown') {
+        // Structured answer: stream partial objects, then validate the final one against the schema
+        const objectResult = streamObject({
+            model: models('synthesizer'),
+            abortSignal,
+            schema: structuredSchema(output),
+            prompt: `${answerContext}Task: ${structuredInstructions(output)}
+
+IMPORTANT: Put the markers of the evidence supporting each entry (the numbers from [n] in the accumulated knowledge) in its citations. Only use markers that appear in the accumulated knowledge, and never invent new ones. Do NOT put markers or document filenames in the other fields.`,
+            onError: () => {
+                // Reported when the final object is awaited below
+            },
+        });
+
+        // Kept if the run is cancelled before the object is complete
+        let lastPartial: unknown;
+        try {
+            for await (const partial of objectResult.partialObjectStream) {
+                lastPartial = partial;
+                emit({ type: 'object-delta', mode: output.outputMode, object: partial });
+            }
+            structured = { mode: output.outputMode, object: await objectResult.object } as StructuredAnswer;
+            completeResponse = structuredToMarkdown(structured);
+            emit({ type: 'object', mode: structured.mode, object: structured.object });
+            synthesisUsage = await objectResult.usage;
+        } catch (error: any) {
+            if (interrupted()) {
+                console.log('[Agent] Run cancelled while streaming the structured answer');
+                if (lastPartial) {
+                    structured = partialStructuredAnswer(output.outputMode, lastPartial);
+                    completeResponse = structuredToMarkdown(structured);
+                }
+            } else {
+                console.error('[Agent] Structured answer error:', error);
+                streamFailed = true;
+                emit({
+                    type: 'error',
+                    // The schema validation details are in the cause of NoObjectGeneratedError
+                    error: `Could not produce a valid ${output.outputMode} answer: ${error.cause?.message || error.message}`
+                });
+            }
+        }
+    } else {
+        const finalResult = streamText({
+            model: models('synthesizer'),
+            abortSignal,
+            prompt: `${answerContext}Task: Provide a comprehensive, well-structured answer to the user's query based on the accumulated knowledge.
+
+IMPORTANT: Cite the evidence for every claim by placing its marker(s) from the accumulated knowledge (e.g. [3] or [3][7]) right after the claim. Only use markers that appear in the accumulated knowledge, and never invent new ones. Do NOT mention document filenames in your response; each marker is linked to its source document automatically.${memoryContext ? `
+Facts established earlier in the conversation have no markers: use them for context and comparisons, and cite the accumulated knowledge for anything new.` : ''}
+
+Be clear, accurate, and thorough in your response.`,
+        });
+
+        // Stream the final response to the client
+        for await (const part of finalResult.fullStream) {
+            switch (part.type) {
+                case 'text-delta': {
+                    completeResponse += part.text;
+                    emit({
+                        type: 'text-delta',
+                        textDelta: part.text
+                    });
+                    break;
+                }
+                case 'error': {
+                    console.error('[Agent] Stream error:', part.error);
+                    streamFailed = true;
+                    emit({
+                        type: 'error',
+                        // Errors do not survive JSON serialization, only their message is sent
+                        error: part.error instanceof Error ? part.error.message : String(part.error)
+                    });
+                    break;
+                }
+                case 'abort': {
+                    console.log('[Agent] Run cancelled while streaming the final answer');
+                    break;
+                }
+            }
+        }
+        synthesisUsage = interrupted() ? undefined : await finalResult.totalUsage.catch(() => undefined);
+    }
+
+    trace.record(synthesisStart, {
+        kind: 'synthesis',
+        durationMs: trace.now() - synthesisStart,
+        answerLength: completeResponse.length,
+        ...(structured ? { outputMode: structured.mode } : {}),
+        usage: toTokenUsage(synthesisUsage)
+    });
+
+    // Resolve the markers the answer actually used
+    const citations = evidence.citationsFor(completeResponse);
+
+    const files = Array.from(allFiles.values());
+
+    if (cacheKey && completeResponse.trim() && steeringHints.length === 0 && !streamFailed && !searchFailed && !interrupted()) {
+        try {
+            await getAnswerCache(env).store(cacheKey, {
+                query: rewrittenQuery,
+                rags: ragNames,
+                answer: completeResponse,
+                files,
+                citations,
+                createdAt: Date.now()
+            }, cacheSettings.ttlSeconds);
+        } catch (error) {
+            console.error('[Agent] Answer cache store failed:', error);
+        }
+    }
+
+    console.log('[Agent] Agentic loop complete. Total files:', allFiles.size, 'Citations:', citations.length, 'of', evidence.size, 'chunks');
+    return {
+        answer: completeResponse,
+        originalQuery: userQuery,
+        rewrittenQuery: rewrittenQuery,
+        iterations: iteration,
+        searches: searches,
+        files: files,
+        citations: citations,
+        trace: trace.finish(rewrittenQuery, iteration),
+        ...(structured ? { structured } : {}),
+        ...(interrupted() ? { interrupted: true } : {})
+    };
+}
@@ -0,0 +1,102 @@
+import type { LanguageModelUsage } from 'ai';
+import type { OutputMode } from './output-modes';
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+}
+
+export interface TraceSearchResult {
+    evidence: string;
+    rag: string;
+    filename: string;
+    file_id: string;
+    score: number;
+    // Hybrid retrieval: BM25 relevance and local reranker relevance, 0 to 1
+    keywordScore?: number;
+    rerankScore?: number;
+    // Score multiplier of a file down-weighted for negative feedback
+    penalty?: number;
+}
+
+// How well the knowledge gathered so far answers one sub-question of the plan
+export interface SubQuestionCoverage {
+    subQuestion: string;
+    covered: boolean;
+    missing?: string;
+    // Chunks retrieved for the sub-question
+    chunks: number;
+}
+
+// One step of the agentic loop. `at` is the offset from the start of the run, in ms.
+// Search steps count the AutoRAG searches they sent by instance in autoragCalls, for usage metering.
+export type TraceStep = { at: number; durationMs: number } & (
+    | { kind: 'rewrite'; original: string; rewritten: string; usage: TokenUsage }
+    | { kind: 'memory'; summary: boolean; facts: string[] }
+    | { kind: 'plan'; subQuestions: Array<{ question: string; searchQuery: string }>; usage: TokenUsage }
+    | { kind: 'cache'; hit: boolean; tier?: 'exact' | 'semantic'; similarity?: number; cachedQuery?: string }
+    | { kind: 'steer'; iteration: number; hint: string }
+    | { kind: 'search'; iteration: number; query: string; rag?: string; subQueries?: string[]; scorer?: string; excluded?: string[]; results: TraceSearchResult[]; autoragCalls: Record<string, number>; error?: string }
+    | { kind: 'extraction'; iteration: number; query: string; knowledge: string; usage: TokenUsage }
+    | { kind: 'decision'; iteration: number; isKnowledgeEnough: boolean; nextSearchQuery?: string; coverage?: SubQuestionCoverage[]; usage: TokenUsage }
+    | { kind: 'synthesis'; answerLength: number; outputMode?: OutputMode; usage: TokenUsage }
+);
+
+// Distributes Omit over the union members
+type StepInput = TraceStep extends infer Step ? Step extends TraceStep ? Omit<Step, 'at'> : never : never;
+
+export interface SearchTrace {
+    query: string;
+    startedAt: number;
+    durationMs: number;
+    iterations: number;
+    steps: TraceStep[];
+    usage: TokenUsage;
+}
+
+export function toTokenUsage(usage: LanguageModelUsage | undefined): TokenUsage {
+    const inputTokens = usage?.inputTokens || 0;
+    const outputTokens = usage?.outputTokens || 0;
+    return {
+        inputTokens,
+        outputTokens,
+        totalTokens: usage?.totalTokens || inputTokens + outputTokens,
+    };
+}
+
+// Collects the steps of one run, reporting each one as it is recorded
+export class TraceRecorder {
+    private readonly startedAt = Date.now();
+    private readonly steps: TraceStep[] = [];
+    private readonly usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+    constructor(private readonly onStep?: (step: TraceStep) => void) {}
+
+    // Milliseconds since the run started, to pass as the start of a step
+    now(): number {
+        return Date.now() - this.startedAt;
+    }
+
+    record(start: number, step: StepInput) {
+        const recorded = { at: start, ...step } as TraceStep;
+        this.steps.push(recorded);
+        if ('usage' in recorded) {
+            this.usage.inputTokens += recorded.usage.inputTokens;
+            this.usage.outputTokens += recorded.usage.outputTokens;
+            this.usage.totalTokens += recorded.usage.totalTokens;
+        }
+        this.onStep?.(recorded);
+    }
+
+    finish(query: string, iterations: number): SearchTrace {
+        return {
+            query,
+            startedAt: this.startedAt,
+            durationMs: this.now(),
+            iterations,
+            steps: this.steps,
+            usage: { ...this.usage },
+        };
+    }
+}
@@ -0,0 +1,65 @@
+import type { RoomSummary } from './room-registry';
+
+export interface Transcript {
+    room: RoomSummary | null;
+    id: string;
+    rags: string[];
+    messages: any[];
+}
+
+function formatTime(timestamp?: number): string {
+    return timestamp ? new Date(timestamp).toISOString() : '';
+}
+
+// Render a conversation as Markdown, with rewritten queries, citations and files per answer
+export function transcriptToMarkdown(transcript: Transcript): string {
+    const lines: string[] = [];
+
+    lines.push(`# ${transcript.room?.title || transcript.id}`, '');
+    lines.push(`- Room: \`${transcript.id}\``);
+    if (transcript.room) {
+        lines.push(`- Created: ${formatTime(transcript.room.createdAt)}`);
+        lines.push(`- Updated: ${formatTime(transcript.room.updatedAt)}`);
+        if (transcript.room.forkedFrom) {
+            lines.push(`- Forked from: \`${transcript.room.forkedFrom}\``);
+        }
+    }
+    lines.push(`- RAGs: ${transcript.rags.join(', ') || 'none'}`, '');
+
+    for (const message of transcript.messages) {
+        const heading = message.role === 'user' ? 'User' : 'Assistant';
+        lines.push(`## ${heading}${message.createdAt ? ` (${formatTime(message.createdAt)})` : ''}`, '');
+
+        if (message.rewrittenQuery) {
+            lines.push(`> Rewritten query: ${message.rewrittenQuery}`, '');
+        }
+
+        if (message.cached) {
+            lines.push(`> Answered from cache (${message.cached.tier} match on "${message.cached.query}")`, '');
+        }
+
+        lines.push(String(message.content), '');
+
+        if (message.interrupted) {
+            lines.push('_(interrupted)_', '');
+        }
+
+        if (message.citations?.length > 0) {
+            lines.push('**Citations**', '');
+            for (const citation of message.citations) {
+                lines.push(`- [${citation.marker}] ${citation.filename}${citation.rag ? ` (${citation.rag})` : ''}, score ${citation.score}: "${citation.text.substring(0, 200).replace(/\s+/g, ' ')}"`);
+            }
+            lines.push('');
+        }
+
+        if (message.files?.length > 0) {
+            lines.push('**Files**', '');
+            for (const file of message.files) {
+                lines.push(`- ${file.filename}${file.rag ? ` (${file.rag})` : ''}`);
+            }
+            lines.push('');
+        }
+    }
+
+    return lines.join('\n');
+}
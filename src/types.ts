@@ -0,0 +1,80 @@
+import type { AnswerCache } from './answer-cache-store';
+import type { FeedbackStore } from './feedback-store';
+import type { SearchAgent } from './index';
+import type { ModelConfig } from './models';
+import type { RoomRegistry } from './room-registry';
+import type { SavedSearchScheduler } from './saved-search-store';
+import type { RetrievalSettings } from './retrieval';
+import type { UsageMeter } from './usage-store';
+
+export interface Env {
+    AI: any;
+    ASSETS: any;
+    BUCKET: R2Bucket;
+    GOOGLE_GENERATIVE_AI_API_KEY: string;
+    SearchAgent: DurableObjectNamespace<SearchAgent>;
+    RoomRegistry: DurableObjectNamespace<RoomRegistry>;
+    AnswerCache: DurableObjectNamespace<AnswerCache>;
+    UsageMeter: DurableObjectNamespace<UsageMeter>;
+    SavedSearches: DurableObjectNamespace<SavedSearchScheduler>;
+    Feedback: DurableObjectNamespace<FeedbackStore>;
+    // Optional "<provider>:<model id>" per role, see models.ts
+    MODEL_DEFAULT?: string;
+    MODEL_REWRITER?: string;
+    MODEL_PLANNER?: string;
+    MODEL_EXTRACTOR?: string;
+    MODEL_JUDGE?: string;
+    MODEL_SYNTHESIZER?: string;
+    MODEL_SUMMARIZER?: string;
+    OPENAI_COMPATIBLE_BASE_URL?: string;
+    OPENAI_COMPATIBLE_API_KEY?: string;
+    // Answer cache tuning, see answer-cache.ts
+    ANSWER_CACHE_ENABLED?: string;
+    ANSWER_CACHE_TTL_SECONDS?: string;
+    ANSWER_CACHE_SIMILARITY?: string;
+    ANSWER_CACHE_EMBEDDING_MODEL?: string;
+    // Conversation memory tuning, see memory.ts
+    MEMORY_ENABLED?: string;
+    MEMORY_TOKEN_BUDGET?: string;
+    MEMORY_KEEP_RECENT?: string;
+    MEMORY_MAX_FACTS?: string;
+    MEMORY_FACTS_PER_PROMPT?: string;
+    // Usage metering and quotas, see usage.ts (limits of 0 or unset are not enforced)
+    USAGE_ENABLED?: string;
+    USAGE_REQUESTS_PER_MINUTE?: string;
+    USAGE_DAILY_TOKENS?: string;
+    USAGE_RAG_DAILY_TOKENS?: string;
+    USAGE_MAX_ITERATIONS?: string;
+    // Default webhook for saved search alerts and the key they are signed with, see saved-searches.ts
+    SAVED_SEARCH_WEBHOOK_URL?: string;
+    SAVED_SEARCH_WEBHOOK_SECRET?: string;
+    // Answer feedback and the down-weighting of files it flags, see feedback.ts
+    FEEDBACK_ENABLED?: string;
+    FEEDBACK_DOWNWEIGHT_AFTER?: string;
+    FEEDBACK_EXCLUDE_AFTER?: string;
+    FEEDBACK_PENALTY?: string;
+    // Authentication and access control, see auth.ts
+    AUTH_MODE?: 'none' | 'jwt' | 'access' | 'test';
+    AUTH_JWKS_URL?: string;
+    AUTH_ISSUER?: string;
+    AUTH_AUDIENCE?: string;
+    AUTH_GROUPS_CLAIM?: string;
+    AUTH_TEST_KEY?: string;
+    ACCESS_TEAM_DOMAIN?: string;
+    ACCESS_AUD?: string;
+    // JSON (string or object): { groups: { group: [rag] }, ragPrefixes: { rag: [prefix] }, adminGroup }
+    ACCESS_POLICY?: string | object;
+}
+
+export interface AgentState {
+    totalSearches: number;
+    lastSearchTime: number;
+    // First of selectedRags, kept for clients that only know a single instance
+    selectedRag: string;
+    // AutoRAG instances searched by this room
+    selectedRags: string[];
+    // Per-room model overrides, taking precedence over the env vars
+    models: ModelConfig;
+    // AutoRAG search parameters for this room
+    retrievalSettings: RetrievalSettings;
+}
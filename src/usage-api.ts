@@ -0,0 +1,46 @@
+import type { AccessScope } from './auth';
+import { ANONYMOUS_USER, getUsageMeter, usageSettings } from './usage';
+import type { Env } from './types';
+
+// Longest period a report covers
+const MAX_REPORT_DAYS = 366;
+
+// /api/usage routes: usage totals and quota status
+//   GET /api/usage?days=30            (own usage; admins see every user's)
+//   GET /api/usage?days=30&user=id    (admins only: one user's usage)
+export async function handleUsageRequest(request: Request, env: Env, url: URL, access: AccessScope): Promise<Response> {
+    const settings = usageSettings(env);
+    if (!settings.enabled) {
+        return Response.json({ success: false, error: 'Usage metering is not configured' }, { status: 404 });
+    }
+    if (request.method !== 'GET') {
+        return Response.json({ success: false, error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const days = parseInt(url.searchParams.get('days') || '30', 10);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+        return Response.json({ success: false, error: `days must be between 1 and ${MAX_REPORT_DAYS}` }, { status: 400 });
+    }
+
+    const requestedUser = url.searchParams.get('user') || undefined;
+    if (requestedUser && !access.isAdmin && requestedUser !== access.user?.id) {
+        return Response.json({ success: false, error: 'Forbidden' }, { status: 403 });
+    }
+    const userId = access.isAdmin ? requestedUser : access.user?.id;
+    // Quota status is reported for the caller
+    const callerId = access.user?.id || ANONYMOUS_USER;
+
+    try {
+        const meter = getUsageMeter(env);
+        return Response.json({
+            success: true,
+            ...(userId ? { userId } : {}),
+            ...await meter.report(days, userId),
+            limits: settings.limits,
+            current: await meter.current(callerId),
+        });
+    } catch (error: any) {
+        console.error('[Worker] Usage API error:', error);
+        return Response.json({ success: false, error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,220 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { QuotaCheck, UsageEntry, UsageLimits } from './usage';
+import type { Env } from './types';
+
+export interface UsageTotals {
+    requests: number;
+    searches: number;
+    iterations: number;
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+}
+
+export interface RagUsage {
+    rag: string;
+    // Runs that searched the instance
+    requests: number;
+    searches: number;
+    // Share of those runs' tokens
+    totalTokens: number;
+}
+
+export interface UsageReport {
+    // First day (UTC, YYYY-MM-DD) included
+    since: string;
+    totals: UsageTotals;
+    byDay: ({ day: string } & UsageTotals)[];
+    byUser: ({ userId: string } & UsageTotals)[];
+    // room is null for /api/search
+    byRoom: ({ room: string | null } & UsageTotals)[];
+    byRag: RagUsage[];
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+function utcDay(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+}
+
+const TOTALS_COLUMNS = `COALESCE(SUM(requests), 0) AS requests, COALESCE(SUM(searches), 0) AS searches,
+    COALESCE(SUM(iterations), 0) AS iterations, COALESCE(SUM(input_tokens), 0) AS input_tokens,
+    COALESCE(SUM(output_tokens), 0) AS output_tokens, COALESCE(SUM(total_tokens), 0) AS total_tokens`;
+
+function toTotals(row: Record<string, SqlStorageValue>): UsageTotals {
+    return {
+        requests: row.requests as number,
+        searches: row.searches as number,
+        iterations: row.iterations as number,
+        inputTokens: row.input_tokens as number,
+        outputTokens: row.output_tokens as number,
+        totalTokens: row.total_tokens as number,
+    };
+}
+
+// Usage counters per day, user, room and RAG instance, and the recent requests of each user for
+// rate limiting, in a single SQLite-backed Durable Object
+export class UsageMeter extends DurableObject<Env> {
+    constructor(ctx: DurableObjectState, env: Env) {
+        super(ctx, env);
+        this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS usage (
+            day TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            room TEXT NOT NULL,
+            requests INTEGER NOT NULL DEFAULT 0,
+            searches INTEGER NOT NULL DEFAULT 0,
+            iterations INTEGER NOT NULL DEFAULT 0,
+            input_tokens INTEGER NOT NULL DEFAULT 0,
+            output_tokens INTEGER NOT NULL DEFAULT 0,
+            total_tokens INTEGER NOT NULL DEFAULT 0,
+            PRIMARY KEY (day, user_id, room)
+        )`);
+        this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS rag_usage (
+            day TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            rag TEXT NOT NULL,
+            requests INTEGER NOT NULL DEFAULT 0,
+            searches INTEGER NOT NULL DEFAULT 0,
+            total_tokens INTEGER NOT NULL DEFAULT 0,
+            PRIMARY KEY (day, user_id, rag)
+        )`);
+        this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS recent_requests (
+            user_id TEXT NOT NULL,
+            at INTEGER NOT NULL
+        )`);
+        this.ctx.storage.sql.exec('CREATE INDEX IF NOT EXISTS recent_requests_user ON recent_requests (user_id, at)');
+    }
+
+    // Admit a request if the user and its RAG instances are within their limits, counting it for the per-minute limit
+    async admit(userId: string, rags: string[], limits: UsageLimits): Promise<QuotaCheck> {
+        const now = Date.now();
+        const sql = this.ctx.storage.sql;
+        sql.exec('DELETE FROM recent_requests WHERE at <= ?', now - RATE_WINDOW_MS);
+
+        if (limits.requestsPerMinute > 0) {
+            const recent = sql.exec(
+                'SELECT COUNT(*) AS count, MIN(at) AS oldest FROM recent_requests WHERE user_id = ?', userId
+            ).one();
+            if ((recent.count as number) >= limits.requestsPerMinute) {
+                const retryAfterSeconds = Math.max(1, Math.ceil(((recent.oldest as number) + RATE_WINDOW_MS - now) / 1000));
+                return {
+                    allowed: false,
+                    error: `Rate limit exceeded: at most ${limits.requestsPerMinute} questions per minute. Try again in ${retryAfterSeconds}s.`,
+                    retryAfterSeconds,
+                };
+            }
+        }
+
+        // Daily quotas reset at midnight UTC
+        const today = utcDay(now);
+        const untilTomorrow = Math.ceil((Date.parse(`${today}T00:00:00Z`) + 24 * 60 * 60 * 1000 - now) / 1000);
+
+        if (limits.dailyTokens > 0) {
+            const used = sql.exec(
+                'SELECT COALESCE(SUM(total_tokens), 0) AS tokens FROM usage WHERE day = ? AND user_id = ?', today, userId
+            ).one().tokens as number;
+            if (used >= limits.dailyTokens) {
+                return {
+                    allowed: false,
+                    error: `Daily token quota exceeded: ${used} of ${limits.dailyTokens} tokens used today. The quota resets at midnight UTC.`,
+                    retryAfterSeconds: untilTomorrow,
+                };
+            }
+        }
+
+        if (limits.ragDailyTokens > 0) {
+            for (const rag of rags) {
+                const used = sql.exec(
+                    'SELECT COALESCE(SUM(total_tokens), 0) AS tokens FROM rag_usage WHERE day = ? AND rag = ?', today, rag
+                ).one().tokens as number;
+                if (used >= limits.ragDailyTokens) {
+                    return {
+                        allowed: false,
+                        error: `Daily token quota of "${rag}" exceeded: ${used} of ${limits.ragDailyTokens} tokens used today. The quota resets at midnight UTC.`,
+                        retryAfterSeconds: untilTomorrow,
+                    };
+                }
+            }
+        }
+
+        sql.exec('INSERT INTO recent_requests (user_id, at) VALUES (?, ?)', userId, now);
+        return { allowed: true };
+    }
+
+    async record(entry: UsageEntry) {
+        const day = utcDay(Date.now());
+        const sql = this.ctx.storage.sql;
+        const searches = Object.values(entry.searchesByRag).reduce((sum, count) => sum + count, 0);
+
+        sql.exec(
+            `INSERT INTO usage (day, user_id, room, requests, searches, iterations, input_tokens, output_tokens, total_tokens)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(day, user_id, room) DO UPDATE SET
+                requests = requests + excluded.requests,
+                searches = searches + excluded.searches,
+                iterations = iterations + excluded.iterations,
+                input_tokens = input_tokens + excluded.input_tokens,
+                output_tokens = output_tokens + excluded.output_tokens,
+                total_tokens = total_tokens + excluded.total_tokens`,
+            day, entry.userId, entry.room, entry.requests, searches, entry.iterations,
+            entry.usage.inputTokens, entry.usage.outputTokens, entry.usage.totalTokens
+        );
+
+        // Tokens are split evenly among the instances of the run, the remainder going to the first
+        const rags = Array.from(new Set([...entry.rags, ...Object.keys(entry.searchesByRag)]));
+        const share = rags.length > 0 ? Math.floor(entry.usage.totalTokens / rags.length) : 0;
+        rags.forEach((rag, index) => {
+            const tokens = share + (index === 0 ? entry.usage.totalTokens - share * rags.length : 0);
+            sql.exec(
+                `INSERT INTO rag_usage (day, user_id, rag, requests, searches, total_tokens)
+                 VALUES (?, ?, ?, ?, ?, ?)
+                 ON CONFLICT(day, user_id, rag) DO UPDATE SET
+                    requests = requests + excluded.requests,
+                    searches = searches + excluded.searches,
+                    total_tokens = total_tokens + excluded.total_tokens`,
+                day, entry.userId, rag, entry.requests, entry.searchesByRag[rag] || 0, tokens
+            );
+        });
+    }
+
+    // Usage over the last `days` days (today included), for one user or everyone
+    async report(days: number, userId?: string): Promise<UsageReport> {
+        const since = utcDay(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+        const sql = this.ctx.storage.sql;
+        const where = userId ? 'WHERE day >= ? AND user_id = ?' : 'WHERE day >= ?';
+        const params = userId ? [since, userId] : [since];
+
+        return {
+            since,
+            totals: toTotals(sql.exec(`SELECT ${TOTALS_COLUMNS} FROM usage ${where}`, ...params).one()),
+            byDay: sql.exec(`SELECT day, ${TOTALS_COLUMNS} FROM usage ${where} GROUP BY day ORDER BY day`, ...params)
+                .toArray().map((row) => ({ day: row.day as string, ...toTotals(row) })),
+            byUser: sql.exec(`SELECT user_id, ${TOTALS_COLUMNS} FROM usage ${where} GROUP BY user_id ORDER BY total_tokens DESC`, ...params)
+                .toArray().map((row) => ({ userId: row.user_id as string, ...toTotals(row) })),
+            byRoom: sql.exec(`SELECT room, ${TOTALS_COLUMNS} FROM usage ${where} GROUP BY room ORDER BY total_tokens DESC`, ...params)
+                .toArray().map((row) => ({ room: (row.room as string) || null, ...toTotals(row) })),
+            byRag: sql.exec(
+                `SELECT rag, SUM(requests) AS requests, SUM(searches) AS searches, SUM(total_tokens) AS total_tokens
+                 FROM rag_usage ${where} GROUP BY rag ORDER BY total_tokens DESC`, ...params
+            ).toArray().map((row) => ({
+                rag: row.rag as string,
+                requests: row.requests as number,
+                searches: row.searches as number,
+                totalTokens: row.total_tokens as number,
+            })),
+        };
+    }
+
+    // Where a user stands against the per-minute and daily limits
+    async current(userId: string): Promise<{ requestsLastMinute: number, tokensToday: number }> {
+        const now = Date.now();
+        return {
+            requestsLastMinute: this.ctx.storage.sql.exec(
+                'SELECT COUNT(*) AS count FROM recent_requests WHERE user_id = ? AND at > ?', userId, now - RATE_WINDOW_MS
+            ).one().count as number,
+            tokensToday: this.ctx.storage.sql.exec(
+                'SELECT COALESCE(SUM(total_tokens), 0) AS tokens FROM usage WHERE day = ? AND user_id = ?', utcDay(now), userId
+            ).one().tokens as number,
+        };
+    }
+}
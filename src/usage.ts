@@ -0,0 +1,117 @@
+// Usage metering and quotas, used by the agent and the HTTP API. The Durable Object is in usage-store.ts.
+import type { TokenUsage, TraceStep } from './trace';
+import type { UsageMeter } from './usage-store';
+import type { Env } from './types';
+
+// Usage of requests without an authenticated user (auth disabled) is metered under this ID
+export const ANONYMOUS_USER = 'anonymous';
+
+// A limit of 0 means no limit
+export interface UsageLimits {
+    // Questions per user per minute
+    requestsPerMinute: number;
+    // Model tokens per user per UTC day
+    dailyTokens: number;
+    // Model tokens per RAG instance per UTC day, across all users
+    ragDailyTokens: number;
+    // Search iterations per question
+    maxIterations: number;
+}
+
+export interface UsageSettings {
+    enabled: boolean;
+    limits: UsageLimits;
+}
+
+// What one run (or memory compaction) used
+export interface UsageEntry {
+    userId: string;
+    // Room the run happened in ('' for /api/search)
+    room: string;
+    // RAG instances the run searched; their tokens are split evenly among them
+    rags: string[];
+    requests: number;
+    iterations: number;
+    usage: TokenUsage;
+    searchesByRag: Record<string, number>;
+}
+
+export interface QuotaCheck {
+    allowed: boolean;
+    error?: string;
+    retryAfterSeconds?: number;
+}
+
+export function usageSettings(env: Env): UsageSettings {
+    return {
+        enabled: env.USAGE_ENABLED !== 'false' && !!env.UsageMeter,
+        limits: {
+            requestsPerMinute: parseInt(env.USAGE_REQUESTS_PER_MINUTE || '', 10) || 0,
+            dailyTokens: parseInt(env.USAGE_DAILY_TOKENS || '', 10) || 0,
+            ragDailyTokens: parseInt(env.USAGE_RAG_DAILY_TOKENS || '', 10) || 0,
+            maxIterations: parseInt(env.USAGE_MAX_ITERATIONS || '', 10) || 5,
+        },
+    };
+}
+
+// Usage of a run from the steps of its trace, so that a run that failed part-way is metered up to where
+// it got. Every AutoRAG search a step sent is counted.
+export function runUsage(steps: TraceStep[], userId: string, room: string, rags: string[]): UsageEntry {
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    const searchesByRag: Record<string, number> = {};
+    let iterations = 0;
+    for (const step of steps) {
+        if ('usage' in step) {
+            usage.inputTokens += step.usage.inputTokens;
+            usage.outputTokens += step.usage.outputTokens;
+            usage.totalTokens += step.usage.totalTokens;
+        }
+        if ('iteration' in step) {
+            iterations = Math.max(iterations, step.iteration);
+        }
+        if (step.kind === 'search') {
+            for (const [rag, calls] of Object.entries(step.autoragCalls)) {
+                searchesByRag[rag] = (searchesByRag[rag] || 0) + calls;
+            }
+        }
+    }
+    return {
+        userId,
+        room,
+        rags,
+        requests: 1,
+        iterations,
+        usage,
+        searchesByRag,
+    };
+}
+
+export function getUsageMeter(env: Env): DurableObjectStub<UsageMeter> {
+    return env.UsageMeter.get(env.UsageMeter.idFromName('global'));
+}
+
+// Check the quotas before a run and count it towards the per-minute limit.
+// Metering errors never block a question.
+export async function admitRequest(env: Env, userId: string, rags: string[]): Promise<QuotaCheck> {
+    const settings = usageSettings(env);
+    if (!settings.enabled) {
+        return { allowed: true };
+    }
+    try {
+        return await getUsageMeter(env).admit(userId, rags, settings.limits);
+    } catch (error) {
+        console.error('[Worker] Usage quota check failed, allowing the request:', error);
+        return { allowed: true };
+    }
+}
+
+export async function recordUsage(env: Env, entry: UsageEntry) {
+    if (!usageSettings(env).enabled) {
+        return;
+    }
+    try {
+        await getUsageMeter(env).record(entry);
+    } catch (error) {
+        console.error('[Worker] Error recording usage:', error);
+    }
+}
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createCacheKey } from '../src/answer-cache';
+import { mergeRetrievalSettings } from '../src/retrieval';
+import type { Env } from '../src/types';
+
+const env = {
+    MODEL_DEFAULT: 'mock:default',
+    AI: { run: async () => ({ data: [[1, 0]] }) },
+} as unknown as Env;
+
+describe('createCacheKey', () => {
+    const retrieval = mergeRetrievalSettings(undefined);
+
+    it('ignores case, whitespace, trailing punctuation and the order of the RAGs', async () => {
+        const first = await createCacheKey(env, ['reports', 'minutes'], 'What was the budget?', retrieval);
+        const second = await createCacheKey(env, ['minutes', 'reports'], '  what was the   BUDGET', retrieval);
+        assert.equal(first.scope, second.scope);
+        assert.equal(first.queryKey, second.queryKey);
+    });
+
+    it('scopes answers to the models of every role', async () => {
+        const defaults = await createCacheKey(env, ['reports'], 'What was the budget?', retrieval);
+        const sameModels = await createCacheKey(env, ['reports'], 'What was the budget?', retrieval, { synthesizer: 'mock:default' });
+        const override = await createCacheKey(env, ['reports'], 'What was the budget?', retrieval, { synthesizer: 'mock:other' });
+        assert.equal(sameModels.scope, defaults.scope);
+        assert.notEqual(override.scope, defaults.scope);
+    });
+});
@@ -0,0 +1,18 @@
+// Preloaded with --require: cloudflare:workers and cloudflare:email only exist in the Workers runtime, so they
+// are replaced by empty base classes, letting modules that sit next to a Durable Object (or import the agents
+// SDK) load under Node.
+const Module = require('node:module');
+
+// The agents SDK's client extends WebSocket, which Node 20 does not have as a global
+globalThis.WebSocket ??= class WebSocket {};
+
+const load = Module._load;
+Module._load = function (request, ...args) {
+    if (request === 'cloudflare:workers') {
+        return { DurableObject: class DurableObject {} };
+    }
+    if (request === 'cloudflare:email') {
+        return { EmailMessage: class EmailMessage {} };
+    }
+    return load.call(this, request, ...args);
+};
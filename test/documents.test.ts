@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { contentTypeFor, locateChunk, parseByteRange } from '../src/documents';
+
+describe('parseByteRange', () => {
+    it('parses ranges against the object size', () => {
+        assert.deepEqual(parseByteRange('bytes=0-9', 100), { offset: 0, length: 10 });
+        assert.deepEqual(parseByteRange('bytes=90-', 100), { offset: 90, length: 10 });
+        assert.deepEqual(parseByteRange('bytes=-10', 100), { offset: 90, length: 10 });
+        assert.deepEqual(parseByteRange('bytes=-500', 100), { offset: 0, length: 100 });
+        assert.deepEqual(parseByteRange('bytes=50-500', 100), { offset: 50, length: 50 });
+    });
+
+    it('ignores invalid and multi-part ranges', () => {
+        assert.equal(parseByteRange('bytes=10-5', 100), undefined);
+        assert.equal(parseByteRange('bytes=-', 100), undefined);
+        assert.equal(parseByteRange('bytes=0-1,5-6', 100), undefined);
+        assert.equal(parseByteRange('items=0-9', 100), undefined);
+    });
+
+    it('reports valid ranges that cannot be satisfied', () => {
+        assert.equal(parseByteRange('bytes=100-', 100), null);
+        assert.equal(parseByteRange('bytes=-0', 100), null);
+        assert.equal(parseByteRange('bytes=-10', 0), null);
+    });
+});
+
+describe('contentTypeFor', () => {
+    it('prefers a stored type over the extension', () => {
+        assert.equal(contentTypeFor('reports/a.pdf'), 'application/pdf');
+        assert.equal(contentTypeFor('reports/a.bin', 'text/csv'), 'text/csv');
+        assert.equal(contentTypeFor('reports/a.unknown'), 'application/octet-stream');
+    });
+});
+
+describe('locateChunk', () => {
+    it('finds a chunk despite different whitespace and case', () => {
+        const text = 'Intro.\n\nThe 2023 budget   totalled\n4.2 billion.\nMore text.';
+        const found = locateChunk(text, 'the 2023 budget totalled 4.2 billion.', 17);
+        assert.deepEqual(found, { start: text.indexOf('The'), end: text.indexOf('totalled') + 1 });
+        assert.equal(locateChunk(text, 'Nothing like this appears anywhere in it.', 17), null);
+    });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { federatedSearch } from '../src/federated-search';
+import { mergeRetrievalSettings } from '../src/retrieval';
+import type { Env } from '../src/types';
+
+// AutoRAG results per instance, in rank order
+type Results = Record<string, Array<{ file_id: string; score: number; text: string }>>;
+
+function searchEnv(results: Results): Env {
+    return {
+        AI: {
+            autorag: (rag: string) => ({
+                search: async ({ query }: { query: string }) => ({
+                    search_query: query,
+                    data: (results[rag] || []).map((result) => ({
+                        file_id: result.file_id,
+                        filename: `${result.file_id}.pdf`,
+                        score: result.score,
+                        content: [{ type: 'text', text: result.text }],
+                    })),
+                }),
+            }),
+        },
+    } as unknown as Env;
+}
+
+describe('federatedSearch', () => {
+    const results: Results = {
+        a: [{ file_id: 'shared', score: 0.6, text: 'Shared chunk.' }, { file_id: 'only-a', score: 0.9, text: 'Only in a.' }],
+        b: [{ file_id: 'shared', score: 0.5, text: 'Shared chunk.' }],
+    };
+
+    it('fuses instances by reciprocal rank', async () => {
+        const settings = mergeRetrievalSettings(undefined, { fusion: 'rrf' });
+        const { chunks } = await federatedSearch(searchEnv(results), ['a', 'b'], 'q', settings);
+        assert.deepEqual(chunks.map((chunk) => chunk.file_id), ['shared', 'only-a']);
+        assert.equal(chunks[0].fusedScore, 2 / 61);
+    });
+
+    it('fuses instances by normalized score', async () => {
+        const settings = mergeRetrievalSettings(undefined, { fusion: 'score' });
+        const { chunks } = await federatedSearch(searchEnv(results), ['a', 'b'], 'q', settings);
+        assert.deepEqual(chunks.map((chunk) => [chunk.file_id, chunk.fusedScore]), [['only-a', 1], ['shared', 0.5]]);
+    });
+
+    it('reports failed instances and only throws when all fail', async () => {
+        const env = searchEnv(results);
+        const failing = { ...env, AI: { autorag: (rag: string) => rag === 'b' ? { search: async () => { throw new Error('down'); } } : env.AI.autorag(rag) } } as unknown as Env;
+        const { errors } = await federatedSearch(failing, ['a', 'b'], 'q', mergeRetrievalSettings(undefined));
+        assert.deepEqual(errors, [{ rag: 'b', message: 'down' }]);
+        await assert.rejects(federatedSearch(failing, ['b'], 'q', mergeRetrievalSettings(undefined)), /b: down/);
+    });
+});
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { feedbackInputSchema, feedbackSettings, fileKey, filePenalty } from '../src/feedback';
+import type { Env } from '../src/types';
+
+describe('filePenalty', () => {
+    const settings = feedbackSettings({ Feedback: {} } as unknown as Env);
+
+    it('down-weights, then excludes files as negative votes add up', () => {
+        assert.deepEqual([0, 1, 2, 4, 5, 9].map((negative) => filePenalty(negative, settings)), [1, 1, 0.5, 0.5, 0, 0]);
+    });
+
+    it('never applies a threshold of 0', () => {
+        assert.equal(filePenalty(100, { ...settings, downweightAfter: 0, excludeAfter: 0 }), 1);
+        assert.equal(filePenalty(100, { ...settings, excludeAfter: 0 }), 0.5);
+    });
+});
+
+describe('feedbackSettings', () => {
+    it('falls back to the defaults for invalid values', () => {
+        const settings = feedbackSettings({ Feedback: {}, FEEDBACK_PENALTY: '2', FEEDBACK_EXCLUDE_AFTER: '3' } as unknown as Env);
+        assert.deepEqual(settings, { enabled: true, downweightAfter: 2, excludeAfter: 3, penalty: 0.5 });
+    });
+});
+
+describe('feedback', () => {
+    it('identifies files by ID, or by name without one', () => {
+        assert.equal(fileKey({ rag: 'reports', file_id: 'f1', filename: 'a.pdf' }), 'reports:f1');
+        assert.equal(fileKey({ rag: 'reports', filename: 'a.pdf' }), 'reports:a.pdf');
+    });
+
+    it('requires something to record', () => {
+        assert.ok(!feedbackInputSchema.safeParse({}).success);
+        assert.ok(feedbackInputSchema.safeParse({ rating: null }).success);
+        assert.ok(feedbackInputSchema.safeParse({ wrongSources: [{ rag: 'reports', filename: 'a.pdf' }] }).success);
+    });
+});
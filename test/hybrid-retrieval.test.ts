@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { hybridSearch, hybridSearchQueries, identifierTerms, keywordScorer, keywordScores, mergeOverlapping } from '../src/hybrid-retrieval';
+import { mergeRetrievalSettings } from '../src/retrieval';
+import type { Env } from '../src/types';
+
+// AutoRAG results per instance, in rank order
+type Results = Record<string, Array<{ file_id: string; score: number; text: string }>>;
+
+function searchEnv(results: Results, calls: string[] = []): Env {
+    return {
+        AI: {
+            autorag: (rag: string) => ({
+                search: async ({ query, max_num_results }: { query: string; max_num_results: number }) => {
+                    calls.push(`${rag}: ${query} (${max_num_results})`);
+                    return {
+                        search_query: query,
+                        data: (results[rag] || []).map((result) => ({
+                            file_id: result.file_id,
+                            filename: `${result.file_id}.pdf`,
+                            score: result.score,
+                            content: [{ type: 'text', text: result.text }],
+                        })),
+                    };
+                },
+            }),
+        },
+    } as unknown as Env;
+}
+
+describe('identifiers', () => {
+    it('finds codes, numbers and quoted phrases', () => {
+        assert.deepEqual(identifierTerms('Status of ABC-123 and "school meals" in 2023/24?'), ['school meals', 'ABC-123', '2023/24']);
+        assert.deepEqual(identifierTerms('What is the budget?'), []);
+    });
+
+    it('adds one search for the identifiers of the queries', () => {
+        const settings = mergeRetrievalSettings(undefined, { keywordWeight: 0.5 });
+        assert.deepEqual(hybridSearchQueries(['budget of ABC-123', 'staff'], settings), ['budget of ABC-123', 'staff', 'ABC-123']);
+        assert.deepEqual(hybridSearchQueries(['ABC-123'], settings), ['ABC-123']);
+        assert.deepEqual(hybridSearchQueries(['budget'], settings), ['budget']);
+    });
+
+    it('adds none without keyword scoring', () => {
+        assert.deepEqual(hybridSearchQueries(['budget of ABC-123'], mergeRetrievalSettings(undefined)), ['budget of ABC-123']);
+    });
+});
+
+describe('keywordScores', () => {
+    it('ranks texts by BM25, the best at 1', () => {
+        const scores = keywordScores('healthcare budget', [
+            'The healthcare budget grew.',
+            'The budget of the school board.',
+            'Unrelated text about parks.',
+        ]);
+        assert.equal(scores[0], 1);
+        assert.ok(scores[1] > 0 && scores[1] < 1);
+        assert.equal(scores[2], 0);
+    });
+
+    it('gives texts with every identifier verbatim the top score', () => {
+        const scores = keywordScores('budget of ABC-123', ['Budget budget budget.', 'Ticket ABC-123 was closed.']);
+        assert.equal(scores[1], 1);
+    });
+});
+
+describe('mergeOverlapping', () => {
+    it('merges overlapping windows of the same file', () => {
+        const chunk = { rag: 'a', filename: 'f.pdf', file_id: 'f', fusedScore: 0.1, keywordScore: 0, hybridScore: 0 };
+        const merged = mergeOverlapping([
+            { ...chunk, score: 0.5, text: 'the healthcare budget grew by six percent', queries: [0] },
+            { ...chunk, score: 0.7, text: 'the healthcare budget grew by six percent in 2023', queries: [1] },
+            { ...chunk, file_id: 'g', score: 0.4, text: 'the healthcare budget grew by six percent', queries: [0] },
+        ]);
+        assert.equal(merged.length, 2);
+        assert.equal(merged[0].text, 'the healthcare budget grew by six percent in 2023');
+        assert.equal(merged[0].score, 0.7);
+        assert.deepEqual(merged[0].queries, [0, 1]);
+    });
+});
+
+describe('hybridSearch', () => {
+    const results: Results = {
+        a: [
+            { file_id: 'parks', score: 0.9, text: 'Parks and recreation plans.' },
+            { file_id: 'budget', score: 0.5, text: 'The healthcare budget grew in 2023.' },
+            { file_id: 'flagged', score: 0.8, text: 'The healthcare budget, according to a blog.' },
+        ],
+    };
+    const settings = mergeRetrievalSettings(undefined, { maxResults: 2, keywordWeight: 0.5 });
+
+    it('searches every query plus the identifiers on every instance', async () => {
+        const calls: string[] = [];
+        await hybridSearch(searchEnv(results, calls), ['a', 'b'], ['budget of ABC-123'], settings, keywordScorer);
+        assert.deepEqual(calls.sort(), ['a: ABC-123 (6)', 'a: budget of ABC-123 (6)', 'b: ABC-123 (6)', 'b: budget of ABC-123 (6)']);
+    });
+
+    it('keeps the AutoRAG ranking by default', async () => {
+        const calls: string[] = [];
+        const { chunks } = await hybridSearch(searchEnv(results, calls), ['a'], ['budget of ABC-123'], mergeRetrievalSettings(undefined, { maxResults: 2 }), null);
+        assert.deepEqual(calls, ['a: budget of ABC-123 (2)']);
+        assert.deepEqual(chunks.map((chunk) => chunk.file_id), ['parks', 'budget']);
+    });
+
+    it('ranks chunks by semantic and keyword score', async () => {
+        const { chunks, scorer } = await hybridSearch(searchEnv(results), ['a'], ['healthcare budget'], settings, keywordScorer);
+        assert.equal(scorer, 'bm25');
+        assert.deepEqual(chunks.map((chunk) => chunk.file_id), ['budget', 'flagged']);
+    });
+
+    it('down-weights and excludes files with negative feedback', async () => {
+        const penalties = { 'a:budget': 0.5, 'a:flagged': 0 };
+        const { chunks, excluded } = await hybridSearch(searchEnv(results), ['a'], ['healthcare budget'], settings, keywordScorer, penalties);
+        assert.deepEqual(chunks.map((chunk) => [chunk.file_id, chunk.penalty]), [['budget', 0.5], ['parks', undefined]]);
+        assert.deepEqual(excluded, ['flagged.pdf']);
+    });
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Citation } from '../src/evidence';
+import { addFacts, EMPTY_MEMORY, factsFromAnswer } from '../src/memory';
+
+const citation = (marker: number): Citation => ({
+    marker,
+    rag: 'reports',
+    filename: `report-${marker}.pdf`,
+    file_id: `f${marker}`,
+    score: 0.9,
+    text: '',
+    url: '',
+});
+
+describe('factsFromAnswer', () => {
+    it('keeps the cited sentences with their sources', () => {
+        const facts = factsFromAnswer('The budget grew by 4.2 percent in 2023 [1][2]. Nobody knows why. Staff numbers fell [2].', [citation(1), citation(2)], 'm1');
+        assert.deepEqual(facts.map((fact) => [fact.text, fact.sources.map((source) => source.filename), fact.messageId]), [
+            ['The budget grew by 4.2 percent in 2023.', ['report-1.pdf', 'report-2.pdf'], 'm1'],
+            ['Staff numbers fell.', ['report-2.pdf'], 'm1'],
+        ]);
+    });
+
+    it('does not end sentences at abbreviations or initials', () => {
+        const facts = factsFromAnswer('Dr. Smith approved the plan [1]. Programs, e.g. school meals, were funded [1]. J. Doe wrote Fig. 3 of the report [1].', [citation(1)]);
+        assert.deepEqual(facts.map((fact) => fact.text), [
+            'Dr. Smith approved the plan.',
+            'Programs, e.g. school meals, were funded.',
+            'J. Doe wrote Fig. 3 of the report.',
+        ]);
+    });
+
+    it('turns list items and table rows into facts', () => {
+        const facts = factsFromAnswer('- **Budget**: 4.2 billion [1]\n| 2023 | 4.2 billion | [1] |', [citation(1)]);
+        assert.deepEqual(facts.map((fact) => fact.text), ['Budget: 4.2 billion', '2023; 4.2 billion']);
+    });
+});
+
+describe('addFacts', () => {
+    it('replaces facts with the same text and keeps the newest', () => {
+        const [first, second, third] = ['First fact here.', 'Second fact here.', 'Third fact here.']
+            .map((text, index) => ({ text, sources: [], createdAt: index }));
+        let memory = addFacts(EMPTY_MEMORY, [first, second], 2);
+        memory = addFacts(memory, [{ ...first, createdAt: 5 }, third], 2);
+        assert.deepEqual(memory.facts.map((fact) => [fact.text, fact.createdAt]), [['First fact here.', 5], ['Third fact here.', 2]]);
+    });
+});
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { negotiateVersion, parseClientMessage, parseOfferedVersions, serverMessageSchema } from '../src/protocol';
+
+describe('version negotiation', () => {
+    it('parses the offered versions, skipping invalid ones', () => {
+        assert.deepEqual(parseOfferedVersions('1, 2,x,-1,0'), [1, 2]);
+        assert.deepEqual(parseOfferedVersions(null), []);
+    });
+
+    it('picks the highest common version', () => {
+        assert.equal(negotiateVersion([1, 7]), 1);
+        assert.equal(negotiateVersion([7]), null);
+    });
+});
+
+describe('parseClientMessage', () => {
+    it('accepts typed messages', () => {
+        const { messages, error } = parseClientMessage(JSON.stringify({ type: 'chat', content: ' What changed? ', outputMode: 'table' }), 1);
+        assert.equal(error, undefined);
+        assert.deepEqual(messages, [{ type: 'chat', content: 'What changed?', outputMode: 'table' }]);
+    });
+
+    it('rejects invalid JSON and invalid messages', () => {
+        assert.equal(parseClientMessage('{', 1).error, 'Message is not valid JSON');
+        assert.match(parseClientMessage(JSON.stringify({ type: 'steer', hint: '' }), 1).error!, /^Invalid message: hint/);
+        assert.match(parseClientMessage(JSON.stringify({ type: 'settings', retrievalSettings: { maxResults: 'ten' } }), 1).error!, /retrievalSettings\.maxResults/);
+    });
+
+    it('requires typed messages once a version was negotiated', () => {
+        assert.ok(parseClientMessage(JSON.stringify({ messages: [{ content: 'hi' }] }), 1).error);
+    });
+
+    it('translates legacy messages into settings followed by chats', () => {
+        const { messages, error } = parseClientMessage(JSON.stringify({
+            selectedRag: 'reports',
+            retrievalSettings: { maxResults: 5 },
+            messages: [{ id: 'm1', content: 'First' }, { id: 'not valid!', content: 'Second' }],
+        }), 0);
+        assert.equal(error, undefined);
+        assert.deepEqual(messages, [
+            { type: 'settings', selectedRags: ['reports'], retrievalSettings: { maxResults: 5 } },
+            { type: 'chat', id: 'm1', content: 'First' },
+            { type: 'chat', content: 'Second' },
+        ]);
+    });
+});
+
+describe('serverMessageSchema', () => {
+    it('only accepts errors sent as their message', () => {
+        assert.ok(serverMessageSchema.safeParse({ type: 'error', error: 'Search failed', code: 'invalid-message' }).success);
+        assert.ok(!serverMessageSchema.safeParse({ type: 'error', error: {} }).success);
+    });
+
+    it('ignores fields it does not know', () => {
+        assert.ok(serverMessageSchema.safeParse({ type: 'finish', messageId: 'm1', extra: true }).success);
+    });
+});
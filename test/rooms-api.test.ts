@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { AccessScope } from '../src/auth';
+import { handleRoomsRequest } from '../src/rooms-api';
+import type { SearchTrace } from '../src/trace';
+import type { Env } from '../src/types';
+
+const access: AccessScope = { user: null, rags: null, documentPrefixes: [], isAdmin: false };
+
+const trace = (query: string): SearchTrace => ({ query, startedAt: 0, durationMs: 10, iterations: 1, steps: [], usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 } });
+
+// Rooms held in memory: the agent RPC methods the rooms API uses, and a registry that knows every room
+function roomsEnv() {
+    const rooms = new Map<string, { messages: any[]; traces: Record<string, SearchTrace> }>();
+    rooms.set('room-1', {
+        messages: [
+            { id: 'q1', role: 'user', content: 'What was the budget?' },
+            { id: 'a1', role: 'assistant', content: 'It was 4.2 billion [1].' },
+            { id: 'q2', role: 'user', content: 'And in 2022?' },
+            { id: 'a2', role: 'assistant', content: 'It was 4.0 billion [1].' },
+        ],
+        traces: { a1: trace('budget'), a2: trace('budget 2022') },
+    });
+    const agent = (name: string) => {
+        const room = () => rooms.get(name) || { messages: [], traces: {} };
+        return {
+            fetch: async () => new Response(''),
+            getTranscript: async () => ({
+                id: name,
+                messages: room().messages,
+                rags: ['reports'],
+                retrievalSettings: {},
+                models: {},
+                memory: { summary: '', facts: [], compactedMessages: 0, updatedAt: 0 },
+            }),
+            importConversation: async (messages: any[], _settings: unknown, _indexUpdate: unknown, _memory: unknown, traces: Record<string, SearchTrace> = {}) => {
+                rooms.set(name, { messages, traces });
+            },
+            getTrace: async (messageId: string) => room().traces[messageId] || null,
+            getTraces: async (messageIds: string[]) => Object.fromEntries(messageIds.flatMap((id) => room().traces[id] ? [[id, room().traces[id]]] : [])),
+        };
+    };
+    const registry = { getRoom: async (id: string) => ({ id, title: 'Budget', owner: null }) };
+    const env = {
+        SearchAgent: { idFromName: (name: string) => name, get: (name: string) => agent(name) },
+        RoomRegistry: { idFromName: (name: string) => name, get: () => registry },
+    } as unknown as Env;
+    return { env, rooms };
+}
+
+function request(env: Env, method: string, path: string, body?: unknown) {
+    const url = new URL(path, 'http://localhost');
+    return handleRoomsRequest(new Request(url, { method, ...(body ? { body: JSON.stringify(body) } : {}) }), env, url, access);
+}
+
+describe('POST /api/rooms/:id/fork', () => {
+    it('copies the traces of the answers it copies', async () => {
+        const { env, rooms } = roomsEnv();
+        const response = await request(env, 'POST', '/api/rooms/room-1/fork', { atMessage: 2 });
+        assert.equal(response.status, 201);
+        const { room } = await response.json() as { room: { id: string } };
+        assert.deepEqual(rooms.get(room.id)?.messages.map((message) => message.id), ['q1', 'a1']);
+
+        const copied = await request(env, 'GET', `/api/rooms/${room.id}/traces/a1`);
+        assert.equal(copied.status, 200);
+        assert.equal((await copied.json() as { trace: SearchTrace }).trace.query, 'budget');
+        assert.equal((await request(env, 'GET', `/api/rooms/${room.id}/traces/a2`)).status, 404);
+    });
+});
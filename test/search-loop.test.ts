@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { CachedAnswer, CacheKey } from '../src/answer-cache';
+import { addFacts, EMPTY_MEMORY, type ConversationMemory } from '../src/memory';
+import { mergeRetrievalSettings } from '../src/retrieval';
+import { runAgenticSearch, type SearchEvent, type SearchRunOptions } from '../src/search-loop';
+import type { Env } from '../src/types';
+
+// Every role runs on the mock provider; searches return one report
+const env = {
+    MODEL_DEFAULT: 'mock:default',
+    ANSWER_CACHE_ENABLED: 'false',
+    AI: {
+        autorag: () => ({
+            search: async ({ query }: { query: string }) => ({
+                search_query: query,
+                data: [{
+                    file_id: 'f1',
+                    filename: 'reports/budget.pdf',
+                    score: 0.9,
+                    content: [{ type: 'text', text: 'The healthcare budget was 4.2 billion in 2023.' }],
+                }],
+            }),
+        }),
+    },
+} as unknown as Env;
+
+// The same env with an in-memory answer cache (exact tier only)
+function cachedEnv(): Env {
+    const answers = new Map<string, CachedAnswer>();
+    const cache = {
+        lookup: async (key: CacheKey) => {
+            const entry = answers.get(`${key.scope}:${key.queryKey}`);
+            return entry ? { ...entry, tier: 'exact', similarity: 1 } : null;
+        },
+        store: async (key: CacheKey, entry: CachedAnswer) => {
+            answers.set(`${key.scope}:${key.queryKey}`, entry);
+        },
+    };
+    return {
+        ...env,
+        ANSWER_CACHE_ENABLED: 'true',
+        AI: { ...env.AI, run: async () => ({ data: [] }) },
+        AnswerCache: { idFromName: (name: string) => name, get: () => cache },
+    } as unknown as Env;
+}
+
+function roomMemory(...facts: string[]): ConversationMemory {
+    return addFacts(EMPTY_MEMORY, facts.map((text) => ({ text, sources: [], createdAt: 0 })), 10);
+}
+
+function run(options: Partial<SearchRunOptions> = {}) {
+    const events: SearchEvent[] = [];
+    const result = runAgenticSearch({
+        env,
+        ragNames: ['reports'],
+        messages: [{ role: 'user', content: 'What was the healthcare budget?' }],
+        retrieval: mergeRetrievalSettings(undefined),
+        emit: (event) => events.push(event),
+        ...options,
+    });
+    return { result, events };
+}
+
+describe('runAgenticSearch', () => {
+    it('answers from the search results with citations', async () => {
+        const { result, events } = run();
+        const { answer, citations, files, iterations, trace } = await result;
+        assert.match(answer, /4\.2 billion.*\[1\]/);
+        assert.deepEqual(citations.map((citation) => [citation.marker, citation.filename]), [[1, 'reports/budget.pdf']]);
+        assert.deepEqual(files.map((file) => file.filename), ['reports/budget.pdf']);
+        assert.equal(iterations, 1);
+        assert.deepEqual(trace.steps.map((step) => step.kind), ['search', 'extraction', 'decision', 'synthesis']);
+        assert.ok(trace.usage.totalTokens > 0);
+        assert.equal(events.filter((event) => event.type === 'search-start').length, 1);
+        assert.equal(events.filter((event) => event.type === 'text-delta').map((event) => event.textDelta).join(''), answer);
+    });
+
+    it('records steering hints in the trace', async () => {
+        const hints = [['Focus on 2023']];
+        const { result } = run({ takeSteeringHints: () => hints.shift() || [] });
+        const { trace } = await result;
+        assert.ok(trace.steps.some((step) => step.kind === 'steer' && step.hint === 'Focus on 2023'));
+    });
+
+    it('stops when cancelled and marks the answer interrupted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const { result } = run({ abortSignal: controller.signal });
+        const { interrupted, iterations } = await result;
+        assert.equal(interrupted, true);
+        assert.equal(iterations, 0);
+    });
+
+    it('reuses cached answers in rooms with memory unrelated to the question', async () => {
+        const cacheEnv = cachedEnv();
+        const question = { role: 'user', content: 'What was the healthcare budget?' };
+        const first = await run({ env: cacheEnv }).result;
+        assert.equal(first.cached, undefined);
+
+        // A second question in a room whose memory holds a fact from its first answer
+        const messages = [{ role: 'user', content: 'How many staff left?' }, { role: 'assistant', content: 'Staff numbers fell in 2021 [1].' }, question];
+        const unrelated = await run({ env: cacheEnv, messages, memory: roomMemory('Staff numbers fell in 2021.') }).result;
+        assert.equal(unrelated.cached?.tier, 'exact');
+        assert.equal(unrelated.answer, first.answer);
+
+        const related = await run({ env: cacheEnv, messages, memory: roomMemory('The healthcare budget grew in 2022.') }).result;
+        assert.equal(related.cached, undefined);
+        assert.ok(related.trace.steps.some((step) => step.kind === 'memory'));
+    });
+
+    it('streams structured answers and keeps a Markdown rendering', async () => {
+        const { result, events } = run({ output: { outputMode: 'table' } });
+        const { answer, structured } = await result;
+        assert.equal(structured?.mode, 'table');
+        assert.ok(events.some((event) => event.type === 'object'));
+        assert.match(answer, /\| Sources \|/);
+    });
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TraceStep } from '../src/trace';
+import { runUsage, usageSettings } from '../src/usage';
+import type { Env } from '../src/types';
+
+const usage = (totalTokens: number) => ({ inputTokens: totalTokens - 10, outputTokens: 10, totalTokens });
+
+describe('runUsage', () => {
+    it('sums the tokens of every step and counts every AutoRAG search', () => {
+        const steps: TraceStep[] = [
+            { kind: 'rewrite', at: 0, durationMs: 5, original: 'q', rewritten: 'q', usage: usage(100) },
+            { kind: 'search', at: 5, durationMs: 5, iteration: 1, query: 'a | b', subQueries: ['a', 'b'], results: [], autoragCalls: { reports: 3, news: 3 } },
+            { kind: 'extraction', at: 10, durationMs: 5, iteration: 1, query: 'q', knowledge: '', usage: usage(200) },
+            { kind: 'search', at: 15, durationMs: 5, iteration: 2, query: 'c', rag: 'news', results: [], autoragCalls: { news: 1 }, error: 'news: down' },
+            { kind: 'synthesis', at: 20, durationMs: 5, answerLength: 10, usage: usage(300) },
+        ];
+        assert.deepEqual(runUsage(steps, 'alice', 'room', ['reports', 'news']), {
+            userId: 'alice',
+            room: 'room',
+            rags: ['reports', 'news'],
+            requests: 1,
+            iterations: 2,
+            usage: { inputTokens: 570, outputTokens: 30, totalTokens: 600 },
+            searchesByRag: { reports: 3, news: 4 },
+        });
+    });
+
+    it('meters a run that failed before any step', () => {
+        const entry = runUsage([], 'alice', '', ['reports']);
+        assert.equal(entry.requests, 1);
+        assert.equal(entry.usage.totalTokens, 0);
+        assert.deepEqual(entry.searchesByRag, {});
+    });
+});
+
+describe('usageSettings', () => {
+    it('reads the limits, 0 meaning no limit', () => {
+        const settings = usageSettings({ UsageMeter: {}, USAGE_DAILY_TOKENS: '50000', USAGE_REQUESTS_PER_MINUTE: 'lots' } as unknown as Env);
+        assert.equal(settings.enabled, true);
+        assert.deepEqual(settings.limits, { requestsPerMinute: 0, dailyTokens: 50000, ragDailyTokens: 0, maxIterations: 5 });
+    });
+
+    it('is off without the Durable Object or when disabled', () => {
+        assert.equal(usageSettings({} as Env).enabled, false);
+        assert.equal(usageSettings({ UsageMeter: {}, USAGE_ENABLED: 'false' } as unknown as Env).enabled, false);
+    });
+});